@@ -0,0 +1,181 @@
+const fs = require('fs');
+const { PublicKey } = require('@solana/web3.js');
+const { parseUnits, formatUnits } = require('./splToken');
+
+// Who may join a lobby. Everything is optional - with nothing configured anyone can play.
+//   ADMISSION_LIST_FILE      JSON { "allow": [wallets], "deny": [wallets] }, re-read when it changes
+//   ADMISSION_TOKEN_MINT     Hold at least ADMISSION_TOKEN_MIN_BALANCE of this SPL token...
+//   ADMISSION_NFT_COLLECTION ...or an NFT from this collection (needs a DAS-capable RPC such as Helius)
+// Denylisted wallets are always refused. Allowlisted wallets skip the token gate; with an
+// allowlist and no token gate, only listed wallets get in.
+//
+// Holdings are looked up over RPC ahead of time with resolve() and cached, so the
+// decision in GameManager.addPlayerToLobby (evaluate) stays synchronous.
+class AdmissionRules {
+    constructor(solanaService) {
+        this.solanaService = solanaService;
+
+        this.listFile = process.env.ADMISSION_LIST_FILE || null;
+        this.listMtime = 0;
+        this.allow = new Set();
+        this.deny = new Set();
+        this.loadLists();
+
+        this.tokenMint = this.parseAddress('ADMISSION_TOKEN_MINT');
+        this.tokenMinBalance = process.env.ADMISSION_TOKEN_MIN_BALANCE || '1'; // Whole tokens, decimals allowed
+        try {
+            parseUnits(this.tokenMinBalance, 0);
+        } catch {
+            console.warn(`⚠️ Invalid ADMISSION_TOKEN_MIN_BALANCE "${this.tokenMinBalance}" - using 1`);
+            this.tokenMinBalance = '1';
+        }
+        this.tokenSymbol = process.env.ADMISSION_TOKEN_SYMBOL || 'tokens';
+        this.nftCollection = this.parseAddress('ADMISSION_NFT_COLLECTION');
+
+        this.cacheSeconds = parseInt(process.env.ADMISSION_CACHE_SECONDS) || 300;
+        this.holdings = new Map(); // wallet -> { tokenUnits, hasNft, expiresAt }
+
+        if (this.isTokenGated()) {
+            const gates = [];
+            if (this.tokenMint) gates.push(`${this.tokenMinBalance} ${this.tokenSymbol} (${this.tokenMint})`);
+            if (this.nftCollection) gates.push(`an NFT from ${this.nftCollection}`);
+            console.log(`🚪 Token-gated lobbies: players need ${gates.join(' or ')}`);
+        }
+    }
+
+    parseAddress(name) {
+        const value = process.env[name];
+        if (!value) return null;
+        if (!this.solanaService.isValidAddress(value.trim())) {
+            console.error(`❌ ${name} "${value}" is not a valid address - ignored`);
+            return null;
+        }
+        return value.trim();
+    }
+
+    isTokenGated() {
+        return Boolean(this.tokenMint || this.nftCollection);
+    }
+
+    // (Re)load the allow/deny lists if the file changed since the last read
+    loadLists() {
+        if (!this.listFile) return;
+
+        let mtime;
+        try {
+            mtime = fs.statSync(this.listFile).mtimeMs;
+        } catch {
+            if (this.listMtime !== -1) {
+                console.warn(`⚠️ Admission list ${this.listFile} not found - no allow/deny rules applied`);
+            }
+            this.listMtime = -1;
+            this.allow.clear();
+            this.deny.clear();
+            return;
+        }
+        if (mtime === this.listMtime) return;
+
+        try {
+            const data = JSON.parse(fs.readFileSync(this.listFile, 'utf8'));
+            this.allow = new Set(Array.isArray(data.allow) ? data.allow : []);
+            this.deny = new Set(Array.isArray(data.deny) ? data.deny : []);
+            this.listMtime = mtime;
+            console.log(`🚪 Admission list loaded: ${this.allow.size} allowed, ${this.deny.size} denied`);
+        } catch (error) {
+            // Keep the previous lists rather than opening the doors on a typo
+            console.error(`❌ Admission list unreadable (${error.message}) - keeping the previous rules`);
+        }
+    }
+
+    // Look up a wallet's token/NFT holdings unless a fresh result is cached.
+    // Never throws - a failed lookup just isn't cached, and evaluate() refuses until it works.
+    async resolve(walletAddress) {
+        this.loadLists();
+        if (!this.isTokenGated() || this.allow.has(walletAddress)) return;
+
+        const cached = this.holdings.get(walletAddress);
+        if (cached && cached.expiresAt > Date.now()) return;
+
+        try {
+            const owner = new PublicKey(walletAddress);
+            const [tokenUnits, hasNft] = await Promise.all([
+                this.tokenMint ? this.getTokenUnits(owner) : null,
+                this.nftCollection ? this.holdsCollectionNft(walletAddress) : null
+            ]);
+            this.holdings.set(walletAddress, { tokenUnits, hasNft, expiresAt: Date.now() + this.cacheSeconds * 1000 });
+        } catch (error) {
+            console.warn(`⚠️ Token gate lookup failed for ${walletAddress.slice(0, 8)}...: ${error.message}`);
+        }
+    }
+
+    // Sum of every token account the wallet holds the gate mint in
+    async getTokenUnits(owner) {
+        await this.solanaService.getMintInfo(this.tokenMint); // Decimals for evaluate()
+        const { value } = await this.solanaService.connection.getParsedTokenAccountsByOwner(owner, {
+            mint: new PublicKey(this.tokenMint)
+        });
+        return value.reduce((sum, account) => sum + BigInt(account.account.data.parsed.info.tokenAmount.amount), 0n);
+    }
+
+    // DAS searchAssets - standard RPC can't filter NFTs by collection
+    async holdsCollectionNft(walletAddress) {
+        const response = await fetch(this.solanaService.rpcUrl, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                jsonrpc: '2.0',
+                id: 'admission',
+                method: 'searchAssets',
+                params: { ownerAddress: walletAddress, grouping: ['collection', this.nftCollection], page: 1, limit: 1 }
+            })
+        });
+        const body = await response.json();
+        if (body.error) {
+            throw new Error(`searchAssets: ${body.error.message} (ADMISSION_NFT_COLLECTION needs a DAS-capable RPC)`);
+        }
+        return body.result.items.length > 0;
+    }
+
+    // Null if the wallet may join, otherwise { code, reason } for the lobby screen
+    evaluate(walletAddress) {
+        this.loadLists();
+
+        if (this.deny.has(walletAddress)) {
+            return { code: 'denylisted', reason: 'This wallet is blocked from joining on this server' };
+        }
+        if (this.allow.has(walletAddress)) return null;
+
+        if (!this.isTokenGated()) {
+            return this.allow.size > 0
+                ? { code: 'not_allowlisted', reason: 'This server is invite-only and this wallet is not on the list' }
+                : null;
+        }
+
+        const holdings = this.holdings.get(walletAddress);
+        if (!holdings) {
+            return { code: 'gate_unavailable', reason: 'Could not check this wallet\'s tokens right now - please try again in a moment' };
+        }
+
+        const decimals = this.getTokenDecimals();
+        const minUnits = decimals === null ? null : parseUnits(this.tokenMinBalance, decimals);
+        if (holdings.hasNft || (holdings.tokenUnits !== null && minUnits !== null && holdings.tokenUnits >= minUnits)) {
+            return null;
+        }
+
+        const needs = [];
+        if (this.tokenMint) needs.push(`at least ${this.tokenMinBalance} ${this.tokenSymbol}`);
+        if (this.nftCollection) needs.push(`an NFT from collection ${this.nftCollection.slice(0, 4)}...${this.nftCollection.slice(-4)}`);
+        const has = holdings.tokenUnits !== null && decimals !== null
+            ? ` (this wallet has ${formatUnits(holdings.tokenUnits, decimals)} ${this.tokenSymbol})`
+            : '';
+        return { code: 'token_gated', reason: `Only wallets holding ${needs.join(' or ')} can join${has}` };
+    }
+
+    // Mint decimals, from the SolanaService cache (loaded by getTokenUnits)
+    getTokenDecimals() {
+        const info = this.tokenMint && this.solanaService.mintInfo.get(this.tokenMint);
+        return info ? info.decimals : null;
+    }
+}
+
+module.exports = AdmissionRules;
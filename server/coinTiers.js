@@ -0,0 +1,62 @@
+// Coin tiers - how much each coin is worth and how often it spawns. Scores, rankings
+// and reward splits all use the summed value, not the number of coins picked up.
+// Override values and weights with COIN_TIERS, e.g. "bronze:1:60,silver:3:25,gold:5:12,jackpot:25:3"
+// (name:value:weight). The names are fixed - the client has a look for each one.
+const DEFAULT_TIERS = [
+    { tier: 'bronze', value: 1, weight: 60 },
+    { tier: 'silver', value: 3, weight: 25 },
+    { tier: 'gold', value: 5, weight: 12 },
+    { tier: 'jackpot', value: 25, weight: 3 }
+];
+
+class CoinTiers {
+    constructor(tiers = DEFAULT_TIERS) {
+        this.tiers = tiers.filter(t => t.weight > 0);
+        this.totalWeight = this.tiers.reduce((sum, t) => sum + t.weight, 0);
+        if (this.totalWeight <= 0) {
+            throw new Error('At least one coin tier needs a spawn weight');
+        }
+    }
+
+    static fromEnv(env = process.env) {
+        if (!env.COIN_TIERS) return new CoinTiers();
+
+        const tiers = DEFAULT_TIERS.map(t => ({ ...t }));
+        for (const item of env.COIN_TIERS.split(',')) {
+            const [name, value, weight] = item.split(':').map(s => s.trim());
+            const tier = tiers.find(t => t.tier === name);
+            const parsedValue = parseInt(value);
+            const parsedWeight = parseFloat(weight);
+            if (!tier || !(parsedValue > 0) || !(parsedWeight >= 0)) {
+                console.warn(`⚠️ Invalid COIN_TIERS entry "${item}" - using the default coin tiers`);
+                return new CoinTiers();
+            }
+            tier.value = parsedValue;
+            tier.weight = parsedWeight;
+        }
+
+        try {
+            return new CoinTiers(tiers);
+        } catch (error) {
+            console.warn(`⚠️ ${error.message} - using the default coin tiers`);
+            return new CoinTiers();
+        }
+    }
+
+    // Weighted random tier: { tier, value }
+    pick(random = Math.random) {
+        let roll = random() * this.totalWeight;
+        for (const t of this.tiers) {
+            roll -= t.weight;
+            if (roll < 0) return { tier: t.tier, value: t.value };
+        }
+        const last = this.tiers[this.tiers.length - 1];
+        return { tier: last.tier, value: last.value };
+    }
+
+    describe() {
+        return this.tiers.map(t => `${t.tier} ${t.value} (${((t.weight / this.totalWeight) * 100).toFixed(0)}%)`).join(', ');
+    }
+}
+
+module.exports = CoinTiers;
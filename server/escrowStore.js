@@ -0,0 +1,139 @@
+const fs = require('fs');
+const path = require('path');
+const { Keypair } = require('@solana/web3.js');
+
+// Escrow accounts for buy-in lobbies, stored as a JSON file next to the payout ledger.
+// Every buy-in room gets a fresh keypair; players pay their entry fee to its address
+// and the server pays prizes and refunds out of it. The file holds secret keys -
+// keep server/data private and back it up with the ledger.
+//
+// Status flow: open (taking deposits) -> playing -> settled
+//                  |                        |
+//                  +--------> refunded <----+  (lobby cancelled / server restarted)
+class EscrowStore {
+    constructor(filePath = process.env.ESCROW_FILE || path.join(__dirname, 'data', 'escrows.json')) {
+        this.filePath = filePath;
+        this.escrows = new Map(); // address -> escrow
+        this.load();
+    }
+
+    load() {
+        if (!fs.existsSync(this.filePath)) return;
+
+        try {
+            const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+            for (const escrow of data.escrows || []) {
+                this.escrows.set(escrow.address, escrow);
+            }
+            console.log(`🔐 Loaded ${this.escrows.size} escrow account(s) from ${this.filePath}`);
+        } catch (error) {
+            // Never overwrite a file that may hold keys to funded accounts
+            const backup = `${this.filePath}.corrupt-${Date.now()}`;
+            fs.renameSync(this.filePath, backup);
+            console.error(`❌ Escrow file unreadable (${error.message}) - moved to ${backup}`);
+        }
+    }
+
+    // Same temp file + rename as the payout ledger
+    save() {
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        const tmpPath = `${this.filePath}.tmp`;
+        fs.writeFileSync(tmpPath, JSON.stringify({ escrows: Array.from(this.escrows.values()) }, null, 2), { mode: 0o600 });
+        fs.renameSync(tmpPath, this.filePath);
+    }
+
+    // New escrow account for a buy-in room
+    create(roomId, entryLamports) {
+        const keypair = Keypair.generate();
+        const now = Date.now();
+        const escrow = {
+            address: keypair.publicKey.toBase58(),
+            secretKey: Array.from(keypair.secretKey),
+            roomId,
+            entryLamports,
+            status: 'open',
+            matchId: null,
+            deposits: [], // { wallet, signature, lamports, refunded, confirmedAt }
+            createdAt: now,
+            updatedAt: now
+        };
+
+        this.escrows.set(escrow.address, escrow);
+        this.save();
+        return escrow;
+    }
+
+    get(address) {
+        return this.escrows.get(address) || null;
+    }
+
+    getKeypair(address) {
+        const escrow = this.escrows.get(address);
+        return escrow ? Keypair.fromSecretKey(Uint8Array.from(escrow.secretKey)) : null;
+    }
+
+    update(address, changes) {
+        const escrow = this.escrows.get(address);
+        if (!escrow) return null;
+
+        Object.assign(escrow, changes, { updatedAt: Date.now() });
+        this.save();
+        return escrow;
+    }
+
+    // Drop an escrow nobody ever paid into
+    remove(address) {
+        const escrow = this.escrows.get(address);
+        if (escrow && escrow.deposits.length === 0) {
+            this.escrows.delete(address);
+            this.save();
+        }
+    }
+
+    // A deposit transaction can only ever be credited once, to any escrow
+    hasDepositSignature(signature) {
+        for (const escrow of this.escrows.values()) {
+            if (escrow.deposits.some(d => d.signature === signature)) return true;
+        }
+        return false;
+    }
+
+    addDeposit(address, deposit) {
+        const escrow = this.escrows.get(address);
+        if (!escrow) return null;
+
+        const entry = { ...deposit, refunded: false, confirmedAt: Date.now() };
+        escrow.deposits.push(entry);
+        escrow.updatedAt = entry.confirmedAt;
+        this.save();
+        return entry;
+    }
+
+    markRefunded(address, signature) {
+        const escrow = this.escrows.get(address);
+        const deposit = escrow && escrow.deposits.find(d => d.signature === signature);
+        if (!deposit) return null;
+
+        deposit.refunded = true;
+        escrow.updatedAt = Date.now();
+        this.save();
+        return deposit;
+    }
+
+    // Deposits still held in the escrow (not refunded)
+    getHeldDeposits(address) {
+        const escrow = this.escrows.get(address);
+        return escrow ? escrow.deposits.filter(d => !d.refunded) : [];
+    }
+
+    getPotLamports(address) {
+        return this.getHeldDeposits(address).reduce((sum, d) => sum + d.lamports, 0);
+    }
+
+    // Escrows left open or mid-match by a previous server process
+    getAbandoned() {
+        return Array.from(this.escrows.values()).filter(e => e.status === 'open' || e.status === 'playing');
+    }
+}
+
+module.exports = EscrowStore;
@@ -1,38 +1,128 @@
-const SolanaService = require('./solanaService');
+const crypto = require('crypto');
+const RewardStrategy = require('./rewardStrategy');
+const CoinTiers = require('./coinTiers');
+const { POWER_UP_TYPES, pickPowerUpType } = require('./powerUps');
+const { SpatialGrid } = require('./spatialGrid.mjs');
+const { WalkableArea, generateLayout } = require('./worldLayout.mjs');
+const { loadMap } = require('./mapLoader');
 
+// Socket.IO room of connected sockets that are browsing the lobby without being in a match
+const LOBBY_BROWSERS = 'lobby_browsers';
+
+// One isolated lobby + match, bound to a Socket.IO room (see RoomManager)
 class GameManager {
-    constructor(io) {
+    constructor(io, roomId, solanaService, hooks = {}, { buyIn = null, rewardAssets = ['sol'], admission = null } = {}) {
         this.io = io;
-        this.solanaService = new SolanaService();
+        this.roomId = roomId;
+        this.solanaService = solanaService;
+        this.hooks = hooks; // { onGameStart(room), onReset(room) }
+
+        // Buy-in lobby - players pay an entry fee into this room's escrow and play for the pot
+        this.buyIn = buyIn; // { lamports, houseCutPercent, minPlayers } or null for free play
+        this.lobbyType = buyIn ? 'buyin' : 'free';
+        this.escrow = buyIn ? solanaService.escrows.create(roomId, buyIn.lamports) : null;
+        this.minPlayers = buyIn ? buyIn.minPlayers : 2;
+
+        // What a free match pays from the reward wallet: 'sol' and/or 'token' (buy-in pots are always SOL)
+        this.rewardAssets = rewardAssets;
+
+        // Allow/deny lists and token gating shared by every room (AdmissionRules), null = open to all
+        this.admission = admission;
 
         // Game configuration - Updated for 20-25 players
         this.maxPlayers = parseInt(process.env.MAX_PLAYERS) || 25;
         this.lobbyTimerSeconds = parseInt(process.env.LOBBY_TIMER_SECONDS) || 180;
         this.gameDurationSeconds = parseInt(process.env.GAME_DURATION_SECONDS) || 120;
         this.totalPennies = parseInt(process.env.TOTAL_PENNIES) || 150; // More pennies for bigger map
-        this.mapSize = 200; // Bigger map for more players
+        this.coinTiers = CoinTiers.fromEnv(); // Value and spawn weight per coin tier
+
+        // The town for this match (see worldLayout.mjs) - clients build it from the map and seed
+        this.map = loadMap(); // Bounds, spawn and coin zones, prefabs - MAP picks the file in maps/
+        this.worldSeed = crypto.randomInt(2 ** 31);
+        this.layout = generateLayout(this.map, this.worldSeed);
+        this.walkable = new WalkableArea(this.layout);
+
+        // Movement validation - mirrors CoinSnifferGame.updatePlayer on the client
+        this.maxMoveSpeed = 12 * 1.8; // Sprint speed in m/s
+        this.moveSpeedTolerance = 1.25; // Headroom for frame timing and network jitter
+        this.maxMoveBurstSeconds = 0.25; // Unused movement that can be banked between packets
+        this.playerEyeHeight = 1.7;
+        this.maxJumpHeight = 1.5; // Jump apex is ~1.07m above eye height
+        this.playerRadius = 0.4; // Slightly smaller than the client's 0.5 to avoid false positives
+
+        // Penny collection validation - mirrors CoinSnifferGame.checkPennyCollection
+        this.collectRadius = 1.5;
+        this.collectLatencySeconds = 0.15; // Player may have moved this long since their last update
+        this.suspiciousClaimThreshold = parseInt(process.env.SUSPICIOUS_CLAIM_THRESHOLD) || 5;
+
+        // Power-ups (see powerUps.js) - one spawns every interval while fewer than the max are on the map
+        this.powerUpIntervalSeconds = parseInt(process.env.POWER_UP_INTERVAL_SECONDS) || 15;
+        this.maxPowerUps = parseInt(process.env.MAX_POWER_UPS) || 4;
+        this.nextPowerUpNumber = 1;
+
+        // Doors - shared by everyone in the match
+        this.doorInteractRadius = 3; // Matches CoinSnifferGame.interactWithDoor
+        this.doorCooldownMs = 500; // Stops a door being flapped every frame
+        this.doors = new Map(this.layout.doors.map(d => [d.id, { ...d, open: false, toggledAt: 0 }]));
+
+        // How the reward pool is split (REWARD_STRATEGY, see rewardStrategy.js)
+        this.rewardStrategy = RewardStrategy.fromEnv();
+
+        // Simulation tick - changes are batched into one world_snapshot per tick
+        this.tickRate = parseInt(process.env.TICK_RATE) || 20; // Hz
+        this.tickTimer = null;
+        this.snapshotSeq = 0;
+        this.dirtyPlayers = new Set(); // socketIds that moved since the last snapshot
+        this.movingPlayers = new Set(); // socketIds still to be sent once more when they stop
+        this.stoppedAfterMs = 150; // No change for longer than the client's move interval (~66ms) = stopped
+        this.pendingCollected = []; // { pennyId, playerId, playerScore, value }
+        this.pendingSpawned = []; // { id, position, tier, value }
+        this.pendingPowerUpsSpawned = []; // { id, type, position }
+        this.pendingPowerUpsCollected = []; // { powerUpId, playerId, type, expiresAt, strength }
+        this.pendingDoors = new Set(); // Ids of doors toggled since the last snapshot
+
+        // Session resume - disconnected players keep their slot for a grace period
+        this.resumeGraceSeconds = parseInt(process.env.RESUME_GRACE_SECONDS) || 30;
+        this.sessions = new Map(); // resumeToken -> socketId
 
         // State
         this.lobby = new Map(); // socketId -> { walletAddress, joinTime }
         this.players = new Map(); // socketId -> { walletAddress, position, score }
         this.spectators = new Set();
         // REMOVED: cooldownPlayers - no more skip/wait mechanic
-        this.pennies = new Map(); // pennyId -> { position, collected }
+        this.pennies = new Map(); // pennyId -> { position, collected, tier, value }
+        this.pennyGrid = new SpatialGrid({ size: this.map.size }); // Uncollected pennies, for area queries
+        this.powerUps = new Map(); // powerUpId -> { type, position }
 
         this.gamePhase = 'lobby'; // lobby, playing, results
         this.lobbyTimer = null;
         this.gameTimer = null;
+        this.resetTimer = null; // Results screen -> next lobby
         this.lobbyStartTime = null;
         this.gameStartTime = null;
+        this.matchId = null;
     }
 
     // Add player to lobby - REMOVED cooldown check
-    addPlayerToLobby(socketId, walletAddress) {
+    // Buy-in lobbies need the player's confirmed escrow deposit. Token-gated servers need the
+    // wallet's holdings resolved first (RoomManager.joinLobby does that).
+    addPlayerToLobby(socketId, walletAddress, deposit = null) {
         // Check if wallet is valid
         if (!walletAddress || walletAddress.length < 32) {
             return { success: false, reason: 'Invalid wallet address' };
         }
 
+        // Admission rules - the refusal tells the lobby screen exactly why
+        const refusal = this.admission ? this.admission.evaluate(walletAddress) : null;
+        if (refusal) {
+            console.log(`🚪 Refused ${walletAddress.slice(0, 8)}... (${refusal.code})`);
+            return { success: false, reason: refusal.reason, refusal };
+        }
+
+        if (this.escrow && !deposit) {
+            return { success: false, reason: 'Entry fee required' };
+        }
+
         // REMOVED: cooldown check - players can play immediately again
 
         // Check if already in lobby
@@ -53,10 +143,14 @@ class GameManager {
         }
 
         // Add to lobby
+        const resumeToken = crypto.randomBytes(24).toString('hex');
         this.lobby.set(socketId, {
             walletAddress,
-            joinTime: Date.now()
+            joinTime: Date.now(),
+            resumeToken,
+            deposit
         });
+        this.sessions.set(resumeToken, socketId);
 
         // Start lobby timer if first player
         if (this.lobby.size === 1) {
@@ -68,7 +162,32 @@ class GameManager {
             this.startGame();
         }
 
-        return { success: true };
+        return { success: true, resumeToken };
+    }
+
+    // Emit an event to everyone in this room
+    emit(event, data) {
+        this.io.to(this.roomId).emit(event, data);
+    }
+
+    // Emit a lobby event to this room and to sockets browsing the lobby screen
+    emitLobby(event, data) {
+        this.io.to([this.roomId, LOBBY_BROWSERS]).emit(event, data);
+    }
+
+    // Push the current lobby state to everyone watching the lobby
+    broadcastLobbyState() {
+        if (this.gamePhase === 'lobby') {
+            this.emitLobby('lobby_update', this.getLobbyState());
+        }
+    }
+
+    // Check if a wallet is already waiting in the lobby or playing in this room
+    hasWallet(walletAddress) {
+        for (const entry of [...this.lobby.values(), ...this.players.values()]) {
+            if (entry.walletAddress === walletAddress) return true;
+        }
+        return false;
     }
 
     // Start lobby countdown
@@ -79,21 +198,57 @@ class GameManager {
             const elapsed = (Date.now() - this.lobbyStartTime) / 1000;
             const remaining = Math.max(0, this.lobbyTimerSeconds - elapsed);
 
-            this.io.emit('lobby_timer', {
+            this.emitLobby('lobby_timer', {
+                roomId: this.roomId,
                 remaining: Math.ceil(remaining),
                 total: this.lobbyTimerSeconds
             });
 
-            if (remaining <= 0 && this.lobby.size >= 2) {
+            if (remaining <= 0 && this.lobby.size >= this.minPlayers) {
                 this.startGame();
+            } else if (remaining <= 0 && this.escrow && this.lobby.size > 0) {
+                // Nobody's money waits for another round
+                this.cancelLobby(`Need at least ${this.minPlayers} players to start - entry fees refunded`);
             } else if (remaining <= 0) {
                 // Not enough players, reset timer
                 this.lobbyStartTime = Date.now();
-                this.io.emit('lobby_message', { message: 'Need at least 2 players to start!' });
+                this.emitLobby('lobby_message', { message: `Need at least ${this.minPlayers} players to start!` });
             }
         }, 1000);
     }
 
+    // Buy-in lobby timed out short of players - refund every entry fee and close the room
+    cancelLobby(reason) {
+        if (this.lobbyTimer) {
+            clearInterval(this.lobbyTimer);
+            this.lobbyTimer = null;
+        }
+
+        const deposits = this.solanaService.escrows.getHeldDeposits(this.escrow.address);
+        this.solanaService.escrows.update(this.escrow.address, { status: 'refunded' });
+        this.refundDeposits(deposits);
+
+        console.log(`🚫 ${this.roomId} cancelled: ${reason}`);
+        this.emit('lobby_cancelled', { roomId: this.roomId, reason, refunded: deposits.length > 0 });
+
+        for (const entry of this.lobby.values()) {
+            this.sessions.delete(entry.resumeToken);
+        }
+        this.lobby.clear();
+
+        if (this.hooks.onReset) {
+            this.hooks.onReset(this);
+        }
+    }
+
+    // Give entry fees back - failures are retried by the payout worker
+    refundDeposits(deposits) {
+        if (deposits.length === 0) return;
+        this.solanaService.refundDeposits(this.escrow.address, this.roomId, deposits).catch(error => {
+            console.error(`❌ Refund from ${this.roomId} escrow failed:`, error);
+        });
+    }
+
     // Start the game
     startGame() {
         if (this.lobbyTimer) {
@@ -103,6 +258,12 @@ class GameManager {
 
         this.gamePhase = 'playing';
         this.gameStartTime = Date.now();
+        this.matchId = `match_${this.gameStartTime}_${this.roomId}`; // Unique across restarts - keys the payout ledger
+
+        // Entry fees are locked in from here - no more refunds for leaving
+        if (this.escrow) {
+            this.solanaService.escrows.update(this.escrow.address, { status: 'playing', matchId: this.matchId });
+        }
 
         // Convert lobby players to active players
         for (const [socketId, lobbyPlayer] of this.lobby) {
@@ -110,7 +271,17 @@ class GameManager {
                 walletAddress: lobbyPlayer.walletAddress,
                 position: this.getRandomSpawnPosition(),
                 rotation: { x: 0, y: 0 },
-                score: 0
+                score: 0, // Total value of collected coins
+                coins: 0, // Number of coins collected
+                effects: {}, // Power-up type -> { expiresAt, strength }
+                lastMoveTime: this.gameStartTime,
+                lastChangeTime: this.gameStartTime, // Last move that actually changed position or rotation
+                moveBudget: 0,
+                rejectedClaims: 0,
+                rejectedIds: new Set(), // Coins and power-ups a claim was rejected for
+                resumeToken: lobbyPlayer.resumeToken,
+                disconnected: false,
+                disconnectTimer: null
             });
         }
         this.lobby.clear();
@@ -119,25 +290,32 @@ class GameManager {
         this.generatePennies();
 
         // Notify all players
-        this.io.emit('game_start', {
+        this.emit('game_start', {
             players: Array.from(this.players.entries()).map(([id, p]) => ({
                 id,
                 walletAddress: p.walletAddress,
                 position: p.position
             })),
-            pennies: Array.from(this.pennies.entries()).map(([id, p]) => ({
-                id,
-                position: p.position
-            })),
+            pennies: Array.from(this.pennies.entries()).map(([id, p]) => this.toPennyInfo(id, p)),
+            doors: this.getDoorStates(),
+            map: this.map,
+            seed: this.worldSeed,
             duration: this.gameDurationSeconds
         });
 
+        if (this.hooks.onGameStart) {
+            this.hooks.onGameStart(this);
+        }
+
+        // Start simulation tick
+        this.startTick();
+
         // Start game timer
         this.gameTimer = setInterval(() => {
             const elapsed = (Date.now() - this.gameStartTime) / 1000;
             const remaining = Math.max(0, this.gameDurationSeconds - elapsed);
 
-            this.io.emit('game_timer', {
+            this.emit('game_timer', {
                 remaining: Math.ceil(remaining),
                 total: this.gameDurationSeconds
             });
@@ -147,6 +325,10 @@ class GameManager {
                 this.spawnRandomCoins(5); // Spawn 5 coins every 10 seconds
             }
 
+            if (Math.floor(elapsed) % this.powerUpIntervalSeconds === 0 && Math.floor(elapsed) > 0) {
+                this.spawnPowerUp();
+            }
+
             if (remaining <= 0) {
                 this.endGame();
             }
@@ -159,87 +341,414 @@ class GameManager {
         const baseId = Date.now();
         
         for (let i = 0; i < count; i++) {
+            const position = this.getRandomItemPosition();
+            if (!position) continue;
+
             const id = `penny_spawn_${baseId}_${i}`;
-            const position = {
-                x: (Math.random() - 0.5) * this.mapSize,
-                y: 0.1,
-                z: (Math.random() - 0.5) * this.mapSize
-            };
-            
-            this.pennies.set(id, {
-                position,
-                collected: false
-            });
-            
-            newCoins.push({ id, position });
+            const penny = this.addPenny(id, position);
+
+            newCoins.push(this.toPennyInfo(id, penny));
         }
         
-        // Notify all players about new coins
+        // Queue new coins for the next world snapshot
         if (newCoins.length > 0) {
-            this.io.emit('coins_spawned', { coins: newCoins });
-            console.log(`🪙 Spawned ${count} new coins! Total: ${this.pennies.size}`);
+            this.pendingSpawned.push(...newCoins);
+            console.log(`🪙 Spawned ${newCoins.length} new coins! Total: ${this.pennies.size}`);
+        }
+    }
+
+    // Drop a random power-up somewhere walkable, unless the map already has enough
+    spawnPowerUp() {
+        if (this.powerUps.size >= this.maxPowerUps) return;
+
+        const position = this.getRandomItemPosition();
+        if (!position) return;
+
+        const id = `powerup_${this.nextPowerUpNumber++}`;
+        const powerUp = { type: pickPowerUpType(), position };
+        this.powerUps.set(id, powerUp);
+        this.pendingPowerUpsSpawned.push({ id, ...powerUp });
+        console.log(`✨ Spawned ${powerUp.type} power-up (${this.powerUps.size} on the map)`);
+    }
+
+    // Strength of a player's running power-up effect, or `fallback` if it isn't active
+    getEffectStrength(player, type, fallback = 1) {
+        const effect = player.effects[type];
+        return effect && effect.expiresAt > Date.now() ? effect.strength : fallback;
+    }
+
+    // Running effects of every player, for clients joining mid-match
+    getActiveEffects() {
+        const now = Date.now();
+        const effects = [];
+        for (const [playerId, player] of this.players) {
+            for (const [type, effect] of Object.entries(player.effects)) {
+                if (effect.expiresAt > now) {
+                    effects.push({ playerId, type, expiresAt: effect.expiresAt, strength: effect.strength });
+                }
+            }
+        }
+        return effects;
+    }
+
+    getPowerUpList() {
+        return Array.from(this.powerUps.entries()).map(([id, p]) => ({ id, ...p }));
+    }
+
+    // Start the fixed-rate simulation tick
+    startTick() {
+        this.snapshotSeq = 0;
+        this.dirtyPlayers.clear();
+        this.movingPlayers.clear();
+        this.pendingCollected = [];
+        this.pendingSpawned = [];
+        this.pendingPowerUpsSpawned = [];
+        this.pendingPowerUpsCollected = [];
+        this.pendingDoors.clear();
+
+        this.tickTimer = setInterval(() => {
+            this.broadcastSnapshot();
+        }, 1000 / this.tickRate);
+    }
+
+    // Stop the tick, flushing anything still pending
+    stopTick() {
+        if (this.tickTimer) {
+            clearInterval(this.tickTimer);
+            this.tickTimer = null;
+        }
+        this.broadcastSnapshot();
+    }
+
+    // Emit one batched snapshot with everything that changed since the last tick
+    broadcastSnapshot() {
+        const moved = Array.from(this.dirtyPlayers);
+
+        // A player who stopped goes out once more at the same spot - with that zero-velocity
+        // sample other clients don't extrapolate them past where they stopped
+        const now = Date.now();
+        for (const id of this.movingPlayers) {
+            const p = this.players.get(id);
+            if (!p) {
+                this.movingPlayers.delete(id);
+            } else if (!this.dirtyPlayers.has(id) && now - p.lastChangeTime >= this.stoppedAfterMs) {
+                this.dirtyPlayers.add(id);
+                this.movingPlayers.delete(id);
+            }
+        }
+
+        if (this.dirtyPlayers.size === 0 && this.pendingCollected.length === 0 && this.pendingSpawned.length === 0
+            && this.pendingPowerUpsSpawned.length === 0 && this.pendingPowerUpsCollected.length === 0
+            && this.pendingDoors.size === 0) {
+            return;
+        }
+
+        const players = [];
+        for (const id of this.dirtyPlayers) {
+            const p = this.players.get(id);
+            if (!p) continue;
+            players.push({
+                id,
+                x: p.position.x,
+                y: p.position.y,
+                z: p.position.z,
+                rx: p.rotation.x,
+                ry: p.rotation.y
+            });
+        }
+
+        const snapshot = {
+            seq: ++this.snapshotSeq,
+            t: now,
+            players,
+            collected: this.pendingCollected,
+            spawned: this.pendingSpawned
+        };
+
+        // Scores only change when coins are collected
+        if (this.pendingCollected.length > 0) {
+            snapshot.scores = this.getScores();
+        }
+        if (this.pendingPowerUpsSpawned.length > 0) {
+            snapshot.powerUpsSpawned = this.pendingPowerUpsSpawned;
+        }
+        if (this.pendingPowerUpsCollected.length > 0) {
+            snapshot.powerUpsCollected = this.pendingPowerUpsCollected;
         }
+        if (this.pendingDoors.size > 0) {
+            snapshot.doors = Array.from(this.pendingDoors, id => ({ id, open: this.doors.get(id).open }));
+        }
+
+        this.emit('world_snapshot', snapshot);
+
+        moved.forEach(id => this.movingPlayers.add(id));
+        this.dirtyPlayers.clear();
+        this.pendingCollected = [];
+        this.pendingSpawned = [];
+        this.pendingPowerUpsSpawned = [];
+        this.pendingPowerUpsCollected = [];
+        this.pendingDoors.clear();
     }
 
     // Generate pennies in the world - Updated for bigger map
     generatePennies() {
         this.pennies.clear();
+        this.pennyGrid.clear();
 
         // Penny spawn positions (spread around the bigger map)
         for (let i = 0; i < this.totalPennies; i++) {
-            const id = `penny_${i}`;
-            this.pennies.set(id, {
-                position: {
-                    x: (Math.random() - 0.5) * this.mapSize,
-                    y: 0.1, // Slightly above ground
-                    z: (Math.random() - 0.5) * this.mapSize
-                },
-                collected: false
-            });
+            const position = this.getRandomItemPosition();
+            if (position) {
+                this.addPenny(`penny_${i}`, position);
+            }
         }
     }
 
-    // Get random spawn position for player
+    // Random walkable spot for a coin or power-up, clear enough of walls that it can be
+    // picked up - null in the (very unlikely) case nothing free turned up
+    getRandomItemPosition() {
+        const spot = this.walkable.randomPosition(this.map.coinZones, { radius: 1 });
+        return spot && { x: spot.x, y: 0.1, z: spot.z }; // Slightly above ground
+    }
+
+    // New uncollected coin with a random tier
+    addPenny(id, position) {
+        const { tier, value } = this.coinTiers.pick();
+        const penny = { position, collected: false, tier, value };
+        this.pennies.set(id, penny);
+        this.pennyGrid.insert(id, position.x, position.z);
+        return penny;
+    }
+
+    // What clients get to know about a coin
+    toPennyInfo(id, penny) {
+        return { id, position: penny.position, tier: penny.tier, value: penny.value };
+    }
+
+    // Get random spawn position for player - somewhere walkable in one of the map's spawn zones
     getRandomSpawnPosition() {
-        const angle = Math.random() * Math.PI * 2;
-        const radius = 10 + Math.random() * 20;
+        const spot = this.walkable.randomPosition(this.map.spawnZones, { radius: this.playerRadius + 0.5 });
         return {
-            x: Math.cos(angle) * radius,
+            x: spot ? spot.x : this.map.spawnZones[0].x,
             y: 1.7, // Player eye height
-            z: Math.sin(angle) * radius
+            z: spot ? spot.z : this.map.spawnZones[0].z
         };
     }
 
-    // Update player position
+    // Update player position - validates the move against speed, bounds and buildings.
+    // Returns null if the move was ignored, otherwise the authoritative position and
+    // whether the client needs to be corrected.
     updatePlayerPosition(socketId, data) {
         const player = this.players.get(socketId);
-        if (player) {
-            player.position = data.position;
-            player.rotation = data.rotation;
+        if (!player || this.gamePhase !== 'playing') {
+            return null;
+        }
+
+        const target = data && data.position;
+        if (!target || ![target.x, target.y, target.z].every(Number.isFinite)) {
+            return null;
+        }
+
+        const now = Date.now();
+        const elapsed = Math.max(0, (now - player.lastMoveTime) / 1000);
+        player.lastMoveTime = now;
+
+        // Movement budget refills at max sprint speed (boosted by a speed power-up) and can only bank a short burst
+        const maxSpeed = this.maxMoveSpeed * this.getEffectStrength(player, 'speed') * this.moveSpeedTolerance;
+        player.moveBudget = Math.min(
+            player.moveBudget + maxSpeed * elapsed,
+            maxSpeed * this.maxMoveBurstSeconds
+        );
+
+        const from = player.position;
+        let x = target.x;
+        let z = target.z;
+        let reason = null;
+
+        // Clamp moves that are faster than sprinting
+        const dx = x - from.x;
+        const dz = z - from.z;
+        const distance = Math.sqrt(dx * dx + dz * dz);
+        if (distance > player.moveBudget) {
+            const scale = player.moveBudget / distance;
+            x = from.x + dx * scale;
+            z = from.z + dz * scale;
+            reason = 'speed';
+        }
+
+        // Clamp to map bounds
+        const clampedX = Math.max(-this.map.bounds, Math.min(this.map.bounds, x));
+        const clampedZ = Math.max(-this.map.bounds, Math.min(this.map.bounds, z));
+        if (clampedX !== x || clampedZ !== z) {
+            x = clampedX;
+            z = clampedZ;
+            reason = reason || 'bounds';
+        }
+
+        // Reject moves into anything solid
+        if (this.walkable.isBlocked(x, z, this.playerRadius)) {
+            x = from.x;
+            z = from.z;
+            reason = 'collision';
+        }
+
+        const y = Math.max(
+            this.playerEyeHeight,
+            Math.min(this.playerEyeHeight + this.maxJumpHeight, target.y)
+        );
+
+        player.moveBudget -= Math.sqrt((x - from.x) ** 2 + (z - from.z) ** 2);
+        player.position = { x, y, z };
+        let changed = x !== from.x || y !== from.y || z !== from.z;
+
+        const rotation = data.rotation;
+        if (rotation && Number.isFinite(rotation.x) && Number.isFinite(rotation.y)) {
+            changed = changed || rotation.x !== player.rotation.x || rotation.y !== player.rotation.y;
+            player.rotation = { x: rotation.x, y: rotation.y };
+        }
+
+        // Standing still isn't news - only moves and turns go into the next snapshot
+        if (changed) {
+            player.lastChangeTime = now;
+            this.dirtyPlayers.add(socketId);
         }
+
+        return {
+            position: player.position,
+            rotation: player.rotation,
+            corrected: reason !== null,
+            reason
+        };
     }
 
-    // Collect penny
+    // Collect penny - verifies the player is actually near the penny
     collectPenny(socketId, pennyId) {
         const player = this.players.get(socketId);
         const penny = this.pennies.get(pennyId);
 
-        if (!player || !penny || penny.collected) {
-            return { success: false };
+        if (!player || this.gamePhase !== 'playing') {
+            return { success: false, reason: 'not_playing' };
+        }
+        if (!penny) {
+            return { success: false, reason: 'unknown_penny' };
+        }
+        if (penny.collected) {
+            return { success: false, reason: 'already_collected' };
         }
 
+        // A magnet widens the pickup radius
+        const radius = this.collectRadius * this.getEffectStrength(player, 'magnet');
+        if (!this.isWithinReach(player, penny.position, radius)) {
+            return this.rejectClaim(player, 'penny', pennyId);
+        }
+
+        const value = penny.value * this.getEffectStrength(player, 'double_value');
         penny.collected = true;
-        player.score += 1;
+        this.pennyGrid.remove(pennyId);
+        player.score += value;
+        player.coins += 1;
+
+        this.pendingCollected.push({ pennyId, playerId: socketId, playerScore: player.score, value });
+
+        return { success: true, playerScore: player.score, value };
+    }
+
+    // Horizontal distance only - the client measures from eye height to a floating pickup.
+    // Allows for the distance the player may have moved since their last update.
+    isWithinReach(player, position, radius) {
+        const dx = player.position.x - position.x;
+        const dz = player.position.z - position.z;
+        const speed = this.maxMoveSpeed * this.getEffectStrength(player, 'speed');
+        return Math.sqrt(dx * dx + dz * dz) <= radius + speed * this.collectLatencySeconds;
+    }
+
+    // Out-of-range pickups count towards the suspicious claim threshold - once per coin or
+    // power-up, so a lagging client retrying the same pickup doesn't get flagged for it
+    rejectClaim(player, kind, id) {
+        if (!player.rejectedIds.has(id)) {
+            player.rejectedIds.add(id);
+            player.rejectedClaims += 1;
+            console.warn(`⚠️ Rejected ${kind} claim from ${player.walletAddress.slice(0, 8)}... (${player.rejectedClaims} rejected)`);
+        }
+        return { success: false, reason: 'out_of_range' };
+    }
+
+    // Pick up a power-up - verified like a coin, then the effect runs for its duration.
+    // Picking up the same type again restarts the timer.
+    collectPowerUp(socketId, powerUpId) {
+        const player = this.players.get(socketId);
+        const powerUp = this.powerUps.get(powerUpId);
+
+        if (!player || this.gamePhase !== 'playing') {
+            return { success: false, reason: 'not_playing' };
+        }
+        if (!powerUp) {
+            return { success: false, reason: 'unknown_power_up' };
+        }
+        if (!this.isWithinReach(player, powerUp.position, this.collectRadius)) {
+            return this.rejectClaim(player, 'power-up', powerUpId);
+        }
+
+        const { durationSeconds, strength } = POWER_UP_TYPES[powerUp.type];
+        const effect = { expiresAt: Date.now() + durationSeconds * 1000, strength };
+        player.effects[powerUp.type] = effect;
+        this.powerUps.delete(powerUpId);
+
+        this.pendingPowerUpsCollected.push({ powerUpId, playerId: socketId, type: powerUp.type, ...effect });
+
+        // Radar: tell the collector which coins are within range right now
+        if (powerUp.type === 'radar') {
+            const pennyIds = this.pennyGrid.queryRadius(player.position.x, player.position.z, strength);
+            this.io.to(socketId).emit('radar_pulse', { pennyIds, radius: strength, expiresAt: effect.expiresAt });
+        }
+
+        return { success: true, type: powerUp.type, expiresAt: effect.expiresAt };
+    }
+
+    // Open or close a door for everyone - the player has to be standing next to it
+    toggleDoor(socketId, doorId) {
+        const player = this.players.get(socketId);
+        const door = this.doors.get(doorId);
+
+        if (!player || this.gamePhase !== 'playing') {
+            return { success: false, reason: 'not_playing' };
+        }
+        if (!door) {
+            return { success: false, reason: 'unknown_door' };
+        }
+        if (!this.isWithinReach(player, door, this.doorInteractRadius)) {
+            console.warn(`⚠️ Rejected door toggle from ${player.walletAddress.slice(0, 8)}... (out of range)`);
+            return { success: false, reason: 'out_of_range' };
+        }
 
-        return { success: true, playerScore: player.score };
+        const now = Date.now();
+        if (now - door.toggledAt < this.doorCooldownMs) {
+            return { success: false, reason: 'cooldown' };
+        }
+
+        door.open = !door.open;
+        door.toggledAt = now;
+        this.pendingDoors.add(doorId);
+
+        return { success: true, open: door.open };
+    }
+
+    getDoorStates() {
+        return Array.from(this.doors.values()).map(d => ({ id: d.id, open: d.open }));
     }
 
-    // End the game - Updated with proportional reward system
+    // Check if a player has too many rejected penny claims to be paid
+    isPlayerFlagged(player) {
+        return player.rejectedClaims >= this.suspiciousClaimThreshold;
+    }
+
+    // End the game - rewards are split once here and the exact amounts go to clients
     endGame() {
         if (this.gameTimer) {
             clearInterval(this.gameTimer);
             this.gameTimer = null;
         }
+        this.stopTick();
 
         this.gamePhase = 'results';
 
@@ -248,83 +757,92 @@ class GameManager {
             .map(([id, p]) => ({
                 id,
                 walletAddress: p.walletAddress,
-                score: p.score
+                score: p.score,
+                coins: p.coins,
+                rejectedClaims: p.rejectedClaims,
+                flagged: this.isPlayerFlagged(p)
             }))
             .sort((a, b) => b.score - a.score);
 
-        // Get top 3 (or less if fewer players)
-        const winners = rankings.slice(0, Math.min(3, rankings.length));
-
-        // Calculate proportional rewards based on coins collected
-        const top3TotalCoins = winners.reduce((sum, w) => sum + w.score, 0);
-
-        // Calculate reward percentages proportionally
-        const winnersWithRewards = winners.map((w, i) => {
-            // If no coins collected by top 3, distribute equally
-            const rewardPercent = top3TotalCoins > 0
-                ? Math.round((w.score / top3TotalCoins) * 100)
-                : Math.round(100 / winners.length);
-            return {
-                ...w,
-                place: i + 1,
-                rewardPercent
-            };
-        });
+        // Flagged wallets are excluded from rewards
+        const flaggedPlayers = rankings.filter(r => r.flagged);
+        if (flaggedPlayers.length > 0) {
+            console.warn(`🚩 ${flaggedPlayers.length} wallet(s) flagged for suspicious penny claims`);
+        }
+
+        const { pools, houseLamports } = this.getPrizePool();
+        if (this.rewardAssets.includes('token') && !pools.some(pool => pool.asset.mint)) {
+            console.warn('⚠️ Reward token mint not loaded - this match pays no tokens');
+        }
+        const winners = this.rewardStrategy.allocate(rankings.filter(r => !r.flagged), pools);
+
+        if (this.escrow) {
+            this.solanaService.escrows.update(this.escrow.address, { status: 'settled' });
+            if (winners.length === 0) {
+                // Nobody qualified for a prize - everyone gets their entry fee back
+                this.refundDeposits(this.solanaService.escrows.getHeldDeposits(this.escrow.address));
+            }
+        }
 
         // REMOVED: cooldown system - players can play again immediately
 
         // Emit results
-        this.io.emit('game_end', {
+        this.emit('game_end', {
             rankings,
-            winners: winnersWithRewards,
-            totalTop3Coins: top3TotalCoins
+            winners,
+            rewardStrategy: this.rewardStrategy.name,
+            rewardPools: pools.map(pool => ({ ...pool.asset, units: pool.units.toString() })),
+            houseLamports,
+            flaggedPlayers: flaggedPlayers.map(f => ({
+                id: f.id,
+                walletAddress: f.walletAddress,
+                rejectedClaims: f.rejectedClaims
+            }))
         });
 
-        // Distribute rewards (async) - pass proportional percentages
-        this.distributeRewards(winners, top3TotalCoins);
+        // Distribute rewards (async) - pays exactly the amounts announced above
+        if (winners.length > 0) {
+            this.distributeRewards(winners, houseLamports);
+        }
 
         // Reset for next game after delay
-        setTimeout(() => {
+        this.resetTimer = setTimeout(() => {
+            this.resetTimer = null;
             this.resetGame();
         }, 10000); // 10 second delay before next game
     }
 
-    // Distribute Solana rewards - Updated with proportional system and detailed logging
-    async distributeRewards(winners, totalTop3Coins) {
+    // Distribute Solana rewards with detailed logging
+    async distributeRewards(winners, houseLamports = 0) {
         try {
             console.log('\n🏆 === REWARD DISTRIBUTION STARTED ===');
             console.log(`timestamp: ${new Date().toISOString()}`);
+            console.log(`strategy: ${this.rewardStrategy.describe()}`);
             console.log(`winners count: ${winners.length}`);
-            console.log(`total top 3 coins: ${totalTop3Coins}`);
 
-            // Calculate proportional percentages
-            const rewardPercents = winners.map(w => {
-                if (totalTop3Coins > 0) {
-                    return (w.score / totalTop3Coins) * 100;
-                }
-                // If no coins, distribute equally among winners
-                return 100 / winners.length;
-            });
-
-            console.log('💰 Calculated Reward Split:');
-            winners.forEach((w, i) => {
-                console.log(`   #${i + 1} Wallet: ${w.walletAddress}`);
+            console.log('💰 Reward Split:');
+            winners.forEach(w => {
+                console.log(`   #${w.place} Wallet: ${w.walletAddress}`);
                 console.log(`      Score: ${w.score}`);
-                console.log(`      Share: ${rewardPercents[i].toFixed(4)}%`);
+                console.log(`      Share: ${w.rewardPercent.toFixed(4)}% (${w.rewards.map(r => `${r.units} ${r.symbol} base units`).join(' + ')})`);
             });
 
-            // Actually distribute rewards via Solana with proportional percentages
             console.log('🔄 Calling SolanaService.distributeRewards...');
-            const result = await this.solanaService.distributeRewards(winners, rewardPercents);
+            const result = await this.solanaService.distributeRewards(this.matchId, this.roomId, winners, this.escrow
+                ? { escrowAddress: this.escrow.address, houseLamports }
+                : {});
 
             console.log('✅ SolanaService returned:');
             console.log(JSON.stringify(result, null, 2));
 
             // Emit results to clients
-            this.io.emit('rewards_distributed', {
+            this.emit('rewards_distributed', {
                 winners: result.results,
                 success: result.success,
-                proportional: true
+                strategy: this.rewardStrategy.name,
+                batched: result.batched,
+                signature: result.signature,
+                txUrl: result.txUrl
             });
 
             if (result.success) {
@@ -336,7 +854,7 @@ class GameManager {
             console.log('🏆 === REWARD DISTRIBUTION ENDED ===\n');
         } catch (error) {
             console.error('❌ CRITICAL ERROR IN DISTRIBUTE REWARDS:', error);
-            this.io.emit('rewards_distributed', {
+            this.emit('rewards_distributed', {
                 winners: [],
                 success: false,
                 error: error.message
@@ -344,19 +862,42 @@ class GameManager {
         }
     }
 
+    // Pools up for grabs: the operator-funded SOL and/or token pools, or for buy-in
+    // matches every entry fee in the escrow minus the house cut
+    getPrizePool() {
+        if (!this.escrow) {
+            return { pools: this.solanaService.getRewardPools(this.rewardAssets), houseLamports: 0 };
+        }
+
+        const potLamports = this.solanaService.escrows.getPotLamports(this.escrow.address);
+        const houseLamports = Math.floor((potLamports * this.buyIn.houseCutPercent) / 100);
+        return { pools: [this.solanaService.getSolPool(potLamports - houseLamports)], houseLamports };
+    }
+
     // Reset for next game - REMOVED cooldown system
     resetGame() {
         // REMOVED: cooldown system - players can play again immediately
 
+        for (const player of this.players.values()) {
+            if (player.disconnectTimer) clearTimeout(player.disconnectTimer);
+            this.sessions.delete(player.resumeToken);
+        }
+
         this.players.clear();
         this.pennies.clear();
+        this.pennyGrid.clear();
+        this.powerUps.clear();
         this.gamePhase = 'lobby';
         this.spectators.clear();
 
-        this.io.emit('game_reset', {
+        this.emit('game_reset', {
             message: 'New game starting! Enter your wallet to join.'
             // REMOVED: cooldownPlayers - no more skip mechanic
         });
+
+        if (this.hooks.onReset) {
+            this.hooks.onReset(this);
+        }
     }
 
     // Add spectator
@@ -366,14 +907,110 @@ class GameManager {
 
     // Remove player
     removePlayer(socketId) {
+        const entry = this.players.get(socketId) || this.lobby.get(socketId);
+        if (entry) {
+            if (entry.disconnectTimer) clearTimeout(entry.disconnectTimer);
+            this.sessions.delete(entry.resumeToken);
+        }
+
+        // Leaving a buy-in lobby before the match starts gets the entry fee back
+        const lobbyEntry = this.lobby.get(socketId);
+        if (lobbyEntry && lobbyEntry.deposit) {
+            this.refundDeposits([lobbyEntry.deposit]);
+        }
+
         this.lobby.delete(socketId);
         this.players.delete(socketId);
         this.spectators.delete(socketId);
+        this.dirtyPlayers.delete(socketId);
+        this.movingPlayers.delete(socketId);
+    }
+
+    // Handle a dropped connection - players in a running match keep their slot and
+    // score for the grace period. Returns true if the slot is being held.
+    handleDisconnect(socketId) {
+        const player = this.players.get(socketId);
+
+        if (this.gamePhase === 'playing' && player) {
+            player.disconnected = true;
+            player.disconnectTimer = setTimeout(() => {
+                console.log(`⌛ Resume grace period expired for ${player.walletAddress.slice(0, 8)}...`);
+                this.removePlayer(socketId);
+                this.emit('player_left', { playerId: socketId });
+            }, this.resumeGraceSeconds * 1000);
+
+            console.log(`⏸️ Holding slot for ${player.walletAddress.slice(0, 8)}... for ${this.resumeGraceSeconds}s`);
+            return true;
+        }
+
+        this.removePlayer(socketId);
+        return false;
+    }
+
+    // Re-attach a reconnected socket to its held player slot
+    resumeSession(socketId, resumeToken) {
+        const previousId = this.sessions.get(resumeToken);
+        const player = previousId && this.players.get(previousId);
+
+        if (!player || this.gamePhase !== 'playing') {
+            return { success: false, reason: 'Session expired' };
+        }
+
+        // The old socket may not have timed out yet - the new one takes over either way
+        if (player.disconnectTimer) {
+            clearTimeout(player.disconnectTimer);
+            player.disconnectTimer = null;
+        }
+        player.disconnected = false;
+        player.lastMoveTime = Date.now();
+        player.moveBudget = 0;
+
+        this.players.delete(previousId);
+        this.dirtyPlayers.delete(previousId);
+        this.movingPlayers.delete(previousId);
+        this.players.set(socketId, player);
+        this.sessions.set(resumeToken, socketId);
+
+        console.log(`▶️ ${player.walletAddress.slice(0, 8)}... resumed (${previousId} -> ${socketId})`);
+
+        return {
+            success: true,
+            previousId,
+            walletAddress: player.walletAddress,
+            state: this.getResumeState(socketId)
+        };
+    }
+
+    // Full match snapshot for a resuming player
+    getResumeState(socketId) {
+        const player = this.players.get(socketId);
+
+        return {
+            playerId: socketId,
+            position: player.position,
+            score: player.score,
+            players: Array.from(this.players.entries()).map(([id, p]) => ({
+                id,
+                walletAddress: p.walletAddress,
+                position: p.position
+            })),
+            pennies: Array.from(this.pennies.entries())
+                .filter(([, p]) => !p.collected)
+                .map(([id, p]) => this.toPennyInfo(id, p)),
+            powerUps: this.getPowerUpList(),
+            effects: this.getActiveEffects(),
+            doors: this.getDoorStates(),
+            scores: this.getScores(),
+            timeRemaining: Math.max(0, this.gameDurationSeconds - (Date.now() - this.gameStartTime) / 1000),
+            duration: this.gameDurationSeconds,
+            seq: this.snapshotSeq
+        };
     }
 
     // Get lobby state
     getLobbyState() {
         return {
+            roomId: this.roomId,
             players: Array.from(this.lobby.entries()).map(([id, p]) => ({
                 id,
                 wallet: p.walletAddress.slice(0, 6) + '...' + p.walletAddress.slice(-4)
@@ -383,26 +1020,102 @@ class GameManager {
             timeRemaining: this.lobbyStartTime
                 ? Math.max(0, this.lobbyTimerSeconds - (Date.now() - this.lobbyStartTime) / 1000)
                 : this.lobbyTimerSeconds,
-            gamePhase: this.gamePhase
+            gamePhase: this.gamePhase,
+            lobbyType: this.lobbyType,
+            minPlayers: this.minPlayers,
+            buyIn: this.escrow ? {
+                escrowAddress: this.escrow.address,
+                lamports: this.buyIn.lamports,
+                houseCutPercent: this.buyIn.houseCutPercent,
+                potLamports: this.solanaService.escrows.getPotLamports(this.escrow.address)
+            } : null,
+            rewards: this.getRewardInfo()
         };
     }
 
-    // Get game state
+    // What's at stake and how it gets paid - prize pool, split rules, live/simulated
+    // payouts and the latest paid winners
+    getRewardInfo() {
+        const { pools } = this.getPrizePool();
+        return {
+            pools: pools.map(pool => ({ ...pool.asset, units: pool.units.toString() })),
+            split: {
+                strategy: this.rewardStrategy.name,
+                description: this.rewardStrategy.describe(),
+                places: this.rewardStrategy.places,
+                minScore: this.rewardStrategy.minScore
+            },
+            ...this.solanaService.getPayoutStatus(),
+            recentPayouts: this.solanaService.getRecentPayouts()
+        };
+    }
+
+    // Get game state - also the join-in-progress snapshot for spectators
     getGameState() {
+        const pennies = Array.from(this.pennies.entries())
+            .filter(([, p]) => !p.collected)
+            .map(([id, p]) => this.toPennyInfo(id, p));
+
         return {
+            roomId: this.roomId,
             phase: this.gamePhase,
             players: Array.from(this.players.entries()).map(([id, p]) => ({
                 id,
+                walletAddress: p.walletAddress,
                 position: p.position,
                 score: p.score
             })),
-            penniesRemaining: Array.from(this.pennies.values()).filter(p => !p.collected).length,
+            pennies,
+            penniesRemaining: pennies.length,
+            powerUps: this.getPowerUpList(),
+            effects: this.getActiveEffects(),
+            doors: this.getDoorStates(),
+            map: this.map,
+            seed: this.worldSeed,
+            scores: this.getScores(),
             timeRemaining: this.gameStartTime
                 ? Math.max(0, this.gameDurationSeconds - (Date.now() - this.gameStartTime) / 1000)
-                : this.gameDurationSeconds
+                : this.gameDurationSeconds,
+            duration: this.gameDurationSeconds,
+            seq: this.snapshotSeq
+        };
+    }
+
+    // Get a short summary of this room for the room list
+    getRoomSummary() {
+        return {
+            id: this.roomId,
+            lobbyType: this.lobbyType,
+            phase: this.gamePhase,
+            playerCount: this.gamePhase === 'lobby' ? this.lobby.size : this.players.size,
+            maxPlayers: this.maxPlayers,
+            spectatorCount: this.spectators.size,
+            timeRemaining: this.gamePhase === 'lobby'
+                ? this.getLobbyState().timeRemaining
+                : this.getGameState().timeRemaining
         };
     }
 
+    // Stop all timers so the room can be discarded
+    destroy() {
+        if (this.lobbyTimer) clearInterval(this.lobbyTimer);
+        if (this.gameTimer) clearInterval(this.gameTimer);
+        if (this.tickTimer) clearInterval(this.tickTimer);
+        if (this.resetTimer) clearTimeout(this.resetTimer);
+        for (const player of this.players.values()) {
+            if (player.disconnectTimer) clearTimeout(player.disconnectTimer);
+        }
+        this.lobbyTimer = null;
+        this.gameTimer = null;
+        this.tickTimer = null;
+        this.resetTimer = null;
+
+        // Escrows that never took a deposit have nothing worth keeping
+        if (this.escrow) {
+            this.solanaService.escrows.remove(this.escrow.address);
+        }
+    }
+
     // Get scores
     getScores() {
         return Array.from(this.players.entries())
@@ -421,3 +1134,4 @@ class GameManager {
 }
 
 module.exports = GameManager;
+module.exports.LOBBY_BROWSERS = LOBBY_BROWSERS;
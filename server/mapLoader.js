@@ -0,0 +1,26 @@
+const fs = require('fs');
+const path = require('path');
+const { validateMap } = require('./worldLayout.mjs');
+
+// Map files live in server/maps/<name>.json (schema: GameMap in worldLayout.d.mts). Each
+// is read and validated once, the first time a room asks for it.
+const MAPS_DIR = path.join(__dirname, 'maps');
+const DEFAULT_MAP = 'old-city';
+
+const cache = new Map();
+
+// The map named by MAP (or the default), throws if it's missing or malformed
+function loadMap(name = process.env.MAP || DEFAULT_MAP) {
+    if (!cache.has(name)) {
+        if (!/^[\w-]+$/.test(name)) {
+            throw new Error(`Invalid map name "${name}"`);
+        }
+        const file = path.join(MAPS_DIR, `${name}.json`);
+        const map = validateMap(JSON.parse(fs.readFileSync(file, 'utf8')));
+        console.log(`🗺️ Loaded map "${map.name}" (${map.prefabs.length} prefabs) from ${file}`);
+        cache.set(name, map);
+    }
+    return cache.get(name);
+}
+
+module.exports = { loadMap };
@@ -0,0 +1,146 @@
+const fs = require('fs');
+const path = require('path');
+
+// Durable record of every reward owed to a winner, stored as a JSON file.
+// Entries are keyed by `${matchId}:${place}` so recording the same match twice
+// (e.g. after a restart) never creates a second payout.
+// Buy-in matches also record entry-fee refunds and the house cut here (`kind`),
+// paid out of the match escrow (`source`) instead of the reward wallet.
+//
+// Status flow: pending -> sent -> confirmed
+//                 ^          |
+//                 +----------+  (retry with a fresh blockhash)
+// and `failed` once the retry budget is used up.
+class PayoutLedger {
+    constructor(filePath = process.env.PAYOUT_LEDGER_FILE || path.join(__dirname, 'data', 'payouts.json')) {
+        this.filePath = filePath;
+        this.entries = new Map(); // id -> entry
+        this.load();
+    }
+
+    load() {
+        if (!fs.existsSync(this.filePath)) return;
+
+        try {
+            const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+            for (const entry of data.payouts || []) {
+                this.entries.set(entry.id, entry);
+            }
+            console.log(`📒 Loaded ${this.entries.size} payout(s) from ${this.filePath}`);
+        } catch (error) {
+            // Keep the broken file around for inspection rather than overwriting it
+            const backup = `${this.filePath}.corrupt-${Date.now()}`;
+            fs.renameSync(this.filePath, backup);
+            console.error(`❌ Payout ledger unreadable (${error.message}) - moved to ${backup}`);
+        }
+    }
+
+    // Write to a temp file and rename so a crash mid-write can't truncate the ledger
+    save() {
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        const tmpPath = `${this.filePath}.tmp`;
+        fs.writeFileSync(tmpPath, JSON.stringify({ payouts: Array.from(this.entries.values()) }, null, 2));
+        fs.renameSync(tmpPath, this.filePath);
+    }
+
+    // Record the rewards owed for a match. Returns the ledger entries (existing ones untouched).
+    // payout.key overrides the place in the id for entries that aren't podium places
+    // or that pay a second asset to the same place.
+    record(matchId, roomId, payouts) {
+        const now = Date.now();
+        const recorded = payouts.map(payout => {
+            const id = `${matchId}:${payout.key ?? payout.place}`;
+            if (!this.entries.has(id)) {
+                this.entries.set(id, {
+                    id,
+                    matchId,
+                    roomId,
+                    kind: payout.kind || 'reward', // reward | refund | house
+                    source: payout.source || null, // Escrow address, null = reward wallet
+                    place: payout.place,
+                    wallet: payout.wallet,
+                    coins: payout.coins,
+                    percent: payout.percent,
+                    symbol: payout.symbol, // Reward asset - mint is null for SOL
+                    decimals: payout.decimals,
+                    mint: payout.mint,
+                    units: payout.units, // Base units (lamports for SOL) as a string
+                    amount: payout.amount,
+                    status: 'pending',
+                    attempts: 0,
+                    signature: null,
+                    lastValidBlockHeight: null,
+                    simulated: false,
+                    lastError: null,
+                    nextAttemptAt: now,
+                    createdAt: now,
+                    updatedAt: now
+                });
+            }
+            return this.entries.get(id);
+        });
+
+        this.save();
+        return recorded;
+    }
+
+    get(id) {
+        return this.entries.get(id) || null;
+    }
+
+    update(id, changes) {
+        const entry = this.entries.get(id);
+        if (!entry) return null;
+
+        Object.assign(entry, changes, { updatedAt: Date.now() });
+        this.save();
+        return entry;
+    }
+
+    // Entries the retry worker should look at now
+    getDue(now = Date.now()) {
+        return Array.from(this.entries.values())
+            .filter(e => (e.status === 'pending' || e.status === 'sent') && e.nextAttemptAt <= now)
+            .sort((a, b) => a.createdAt - b.createdAt);
+    }
+
+    // Unsettled entries paid out of one escrow
+    getOpenBySource(source) {
+        return Array.from(this.entries.values())
+            .filter(e => e.source === source && (e.status === 'pending' || e.status === 'sent'));
+    }
+
+    list({ status, wallet, limit = 200 } = {}) {
+        return Array.from(this.entries.values())
+            .filter(e => (!status || e.status === status) && (!wallet || e.wallet === wallet))
+            .sort((a, b) => b.createdAt - a.createdAt)
+            .slice(0, limit);
+    }
+
+    // Reward entries of the latest `limit` matches, newest match first, each in place order
+    getRecentMatches(limit) {
+        const matches = new Map(); // matchId -> { matchId, roomId, createdAt, entries }
+        for (const entry of this.entries.values()) {
+            if ((entry.kind || 'reward') !== 'reward') continue;
+            if (!matches.has(entry.matchId)) {
+                matches.set(entry.matchId, { matchId: entry.matchId, roomId: entry.roomId, createdAt: entry.createdAt, entries: [] });
+            }
+            matches.get(entry.matchId).entries.push(entry);
+        }
+
+        return Array.from(matches.values())
+            .sort((a, b) => b.createdAt - a.createdAt)
+            .slice(0, limit)
+            .map(match => ({ ...match, entries: match.entries.sort((a, b) => a.place - b.place) }));
+    }
+
+    getSummary() {
+        const summary = { pending: 0, sent: 0, confirmed: 0, failed: 0 };
+        for (const entry of this.entries.values()) {
+            summary[entry.status] = (summary[entry.status] || 0) + 1;
+        }
+        return summary;
+    }
+}
+
+module.exports = PayoutLedger;
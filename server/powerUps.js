@@ -0,0 +1,23 @@
+// Power-ups GameManager scatters over the map during a match. Pickups, timers and
+// effects all live on the server; `strength` goes to clients so they can mirror
+// the effect locally (collect radius, move speed) and show it.
+const POWER_UP_TYPES = {
+    magnet: { durationSeconds: 10, strength: 3, weight: 30 }, // Coin collect radius multiplier
+    speed: { durationSeconds: 8, strength: 1.5, weight: 30 }, // Move speed multiplier
+    double_value: { durationSeconds: 12, strength: 2, weight: 25 }, // Coin value multiplier
+    radar: { durationSeconds: 6, strength: 60, weight: 15 } // Reveals coins within this many meters
+};
+
+const TOTAL_WEIGHT = Object.values(POWER_UP_TYPES).reduce((sum, p) => sum + p.weight, 0);
+
+// Weighted random power-up type
+function pickPowerUpType(random = Math.random) {
+    let roll = random() * TOTAL_WEIGHT;
+    for (const [type, powerUp] of Object.entries(POWER_UP_TYPES)) {
+        roll -= powerUp.weight;
+        if (roll < 0) return type;
+    }
+    return 'magnet';
+}
+
+module.exports = { POWER_UP_TYPES, pickPowerUpType };
@@ -0,0 +1,131 @@
+// How a match's reward pool is split between the ranked players (REWARD_STRATEGY):
+//   proportional (default) - the top REWARD_TOP_N share the pool by score (value of coins collected)
+//   fixed                  - fixed percentages by place from REWARD_FIXED_SPLIT (e.g. 50,30,20)
+//   winner_take_all        - first place gets the whole pool
+//   decay                  - the top REWARD_TOP_N, each place getting REWARD_DECAY times the place above
+// Players scoring less than REWARD_MIN_SCORE never win anything.
+//
+// Each strategy only produces relative weights - allocate() turns them into whole
+// base units of every reward asset (lamports for SOL) so what the results screen
+// shows is exactly what gets paid.
+const WEIGHTS = {
+    proportional: (players) => {
+        const totalScore = players.reduce((sum, p) => sum + p.score, 0);
+        // Nobody collected anything - split equally
+        return players.map(p => (totalScore > 0 ? p.score : 1));
+    },
+    fixed: (players, strategy) => players.map((_, i) => strategy.fixedSplit[i] || 0),
+    winner_take_all: (players) => players.map((_, i) => (i === 0 ? 1 : 0)),
+    decay: (players, strategy) => players.map((_, i) => Math.pow(strategy.decay, i))
+};
+
+const DEFAULT_FIXED_SPLIT = [50, 30, 20];
+
+// Weights become integers at this precision so pools can be split as BigInt
+const WEIGHT_SCALE = 1e6;
+
+// "50,30,20" -> [50, 30, 20]; anything unparseable falls back to the default
+function parseSplit(value) {
+    if (!value) return DEFAULT_FIXED_SPLIT;
+
+    const split = value.split(',').map(s => parseFloat(s));
+    if (split.length === 0 || split.some(n => !Number.isFinite(n) || n < 0) || split.every(n => n === 0)) {
+        console.warn(`⚠️ Invalid REWARD_FIXED_SPLIT "${value}" - using ${DEFAULT_FIXED_SPLIT.join(',')}`);
+        return DEFAULT_FIXED_SPLIT;
+    }
+    return split;
+}
+
+class RewardStrategy {
+    constructor({ name = 'proportional', topN = 3, fixedSplit = DEFAULT_FIXED_SPLIT, decay = 0.5, minScore = 0 } = {}) {
+        if (!WEIGHTS[name]) {
+            throw new Error(`Unknown reward strategy "${name}"`);
+        }
+        this.name = name;
+        this.topN = topN;
+        this.fixedSplit = fixedSplit;
+        this.decay = decay;
+        this.minScore = minScore;
+    }
+
+    static fromEnv(env = process.env) {
+        let name = (env.REWARD_STRATEGY || 'proportional').trim();
+        if (!WEIGHTS[name]) {
+            console.warn(`⚠️ Unknown REWARD_STRATEGY "${name}" - using proportional`);
+            name = 'proportional';
+        }
+
+        const decay = parseFloat(env.REWARD_DECAY);
+        return new RewardStrategy({
+            name,
+            topN: parseInt(env.REWARD_TOP_N) || 3,
+            fixedSplit: parseSplit(env.REWARD_FIXED_SPLIT),
+            decay: decay > 0 && decay <= 1 ? decay : 0.5,
+            minScore: parseInt(env.REWARD_MIN_SCORE) || 0
+        });
+    }
+
+    // Most places this strategy can pay
+    get places() {
+        switch (this.name) {
+            case 'fixed':
+                return this.fixedSplit.length;
+            case 'winner_take_all':
+                return 1;
+            default:
+                return this.topN;
+        }
+    }
+
+    // Split each pool ([{ asset: { symbol, decimals, mint }, units: BigInt }]) between players
+    // ranked best first (cheaters already removed). Amounts are whole base units and always
+    // add up to the full pool - rounding dust goes to first place. Returns the winners with
+    // place, rewardPercent and rewards ([{ symbol, decimals, mint, units }], units as strings).
+    allocate(rankedPlayers, pools) {
+        const candidates = rankedPlayers
+            .filter(p => p.score >= this.minScore)
+            .slice(0, this.places);
+        const paying = pools.filter(pool => pool.units > 0n);
+        if (candidates.length === 0 || paying.length === 0) return [];
+
+        const weights = WEIGHTS[this.name](candidates, this).map(w => BigInt(Math.round(w * WEIGHT_SCALE)));
+        const totalWeight = weights.reduce((a, b) => a + b, 0n);
+        if (totalWeight <= 0n) return [];
+
+        const rewards = candidates.map(() => []);
+        for (const { asset, units } of paying) {
+            const shares = weights.map(w => (units * w) / totalWeight);
+            shares[0] += units - shares.reduce((a, b) => a + b, 0n);
+            shares.forEach((share, i) => {
+                if (share > 0n) {
+                    rewards[i].push({ symbol: asset.symbol, decimals: asset.decimals, mint: asset.mint, units: share.toString() });
+                }
+            });
+        }
+
+        return candidates
+            .map((player, i) => ({
+                ...player,
+                place: i + 1,
+                rewardPercent: (Number(weights[i]) / Number(totalWeight)) * 100,
+                rewards: rewards[i]
+            }))
+            .filter(w => w.rewards.length > 0);
+    }
+
+    describe() {
+        const threshold = this.minScore > 0 ? `, min score ${this.minScore}` : '';
+        switch (this.name) {
+            case 'fixed':
+                return `fixed ${this.fixedSplit.join('/')}${threshold}`;
+            case 'decay':
+                return `top ${this.topN} with ${this.decay}x decay${threshold}`;
+            case 'proportional':
+                return `proportional among top ${this.topN}${threshold}`;
+            default:
+                return `winner takes all${threshold}`;
+        }
+    }
+}
+
+module.exports = RewardStrategy;
@@ -0,0 +1,326 @@
+const { LAMPORTS_PER_SOL } = require('@solana/web3.js');
+const SolanaService = require('./solanaService');
+const GameManager = require('./gameManager');
+const AdmissionRules = require('./admissionRules');
+const { LOBBY_BROWSERS } = require('./gameManager');
+
+// Runs one isolated GameManager per Socket.IO room. There is always exactly one
+// open lobby per lobby type (free, plus buy-in when BUY_IN_SOL is set); when it
+// fills up or starts, a fresh lobby is created for newcomers.
+// Finished matches are discarded after their results screen.
+class RoomManager {
+    constructor(io) {
+        this.io = io;
+        this.solanaService = new SolanaService(); // Shared by all rooms
+        this.solanaService.startPayoutWorker();
+
+        // Before any new escrow exists - everything still in the escrow file belongs to a previous run
+        this.solanaService.refundAbandonedEscrows().catch(error => {
+            console.error('❌ Refunding abandoned escrows failed:', error);
+        });
+
+        this.rooms = new Map(); // roomId -> GameManager
+        this.socketRooms = new Map(); // socketId -> roomId
+        this.nextRoomNumber = 1;
+
+        this.admission = new AdmissionRules(this.solanaService);
+        this.buyIn = this.loadBuyInConfig();
+        this.rewardAssetSchedule = this.loadRewardAssetSchedule();
+        this.nextRewardAssetsIndex = 0;
+        this.openRooms = new Map(); // lobbyType -> open GameManager
+        this.openRooms.set('free', this.createRoom('free'));
+        if (this.buyIn) {
+            this.openRooms.set('buyin', this.createRoom('buyin'));
+        }
+    }
+
+    // BUY_IN_SOL > 0 adds a buy-in lobby next to the free one
+    loadBuyInConfig() {
+        const entrySOL = parseFloat(process.env.BUY_IN_SOL) || 0;
+        if (entrySOL <= 0) return null;
+
+        // The reward wallet pays every escrow transaction fee and receives the house cut
+        if (!this.solanaService.rewardWallet) {
+            console.warn('⚠️ BUY_IN_SOL is set but no reward wallet is configured - buy-in lobbies disabled');
+            return null;
+        }
+        // Escrows below the rent-exempt minimum can't hold a lone deposit
+        if (entrySOL < 0.001) {
+            console.warn(`⚠️ BUY_IN_SOL ${entrySOL} is below the 0.001 SOL minimum - buy-in lobbies disabled`);
+            return null;
+        }
+
+        const houseCut = parseFloat(process.env.BUY_IN_HOUSE_CUT_PERCENT);
+        const buyIn = {
+            lamports: Math.round(entrySOL * LAMPORTS_PER_SOL),
+            houseCutPercent: houseCut >= 0 && houseCut < 100 ? houseCut : 5,
+            minPlayers: Math.max(2, parseInt(process.env.BUY_IN_MIN_PLAYERS) || 2)
+        };
+        console.log(`🎟️ Buy-in lobbies enabled: ${entrySOL} SOL entry, ${buyIn.houseCutPercent}% house cut, ${buyIn.minPlayers}+ players`);
+        return buyIn;
+    }
+
+    // REWARD_ASSETS picks what free matches pay: "sol", "token" or "sol+token".
+    // A comma-separated list rotates per match, e.g. "sol,sol,sol+token".
+    loadRewardAssetSchedule() {
+        const schedule = (process.env.REWARD_ASSETS || 'sol')
+            .split(',')
+            .map(item => item.split('+').map(asset => asset.trim().toLowerCase()).filter(Boolean))
+            .filter(assets => assets.length > 0);
+
+        for (const assets of schedule) {
+            const unknown = assets.find(asset => asset !== 'sol' && asset !== 'token');
+            if (unknown) {
+                console.warn(`⚠️ Unknown reward asset "${unknown}" in REWARD_ASSETS - using sol`);
+                return [['sol']];
+            }
+            if (assets.includes('token') && !this.solanaService.rewardToken) {
+                console.warn('⚠️ REWARD_ASSETS includes token but REWARD_TOKEN_MINT is not set - using sol');
+                return [['sol']];
+            }
+        }
+        if (schedule.length === 0) return [['sol']];
+
+        console.log(`🎁 Free match rewards: ${schedule.map(assets => assets.join('+')).join(', ')}`);
+        return schedule;
+    }
+
+    // Reward assets for the next free match in the rotation
+    nextRewardAssets() {
+        const assets = this.rewardAssetSchedule[this.nextRewardAssetsIndex % this.rewardAssetSchedule.length];
+        this.nextRewardAssetsIndex++;
+        return assets;
+    }
+
+    // Create a new lobby room
+    createRoom(lobbyType = 'free') {
+        const roomId = `room_${this.nextRoomNumber++}`;
+        const room = new GameManager(this.io, roomId, this.solanaService, {
+            onGameStart: (r) => this.onGameStart(r),
+            onReset: (r) => this.destroyRoom(r)
+        }, lobbyType === 'buyin'
+            ? { buyIn: this.buyIn, admission: this.admission }
+            : { rewardAssets: this.nextRewardAssets(), admission: this.admission });
+        this.rooms.set(roomId, room);
+        console.log(`🏠 Created ${lobbyType} ${roomId} (${this.rooms.size} room(s) active)`);
+        return room;
+    }
+
+    getOpenRoom(lobbyType = 'free') {
+        return this.openRooms.get(lobbyType) || null;
+    }
+
+    // Replace an open lobby that started or was cancelled - returns true if it was open
+    replaceOpenRoom(room) {
+        if (this.openRooms.get(room.lobbyType) !== room) return false;
+
+        const next = this.createRoom(room.lobbyType);
+        this.openRooms.set(room.lobbyType, next);
+        next.broadcastLobbyState();
+        return true;
+    }
+
+    // The lobby that just started is no longer joinable - open a new one
+    onGameStart(room) {
+        this.replaceOpenRoom(room);
+    }
+
+    // Discard a finished match (or cancelled buy-in lobby) and send its sockets back to the lobby screen
+    destroyRoom(room) {
+        room.destroy();
+        this.rooms.delete(room.roomId);
+        this.replaceOpenRoom(room);
+
+        for (const [socketId, roomId] of this.socketRooms) {
+            if (roomId === room.roomId) this.socketRooms.delete(socketId);
+        }
+        this.io.in(room.roomId).socketsJoin(LOBBY_BROWSERS);
+        this.io.in(room.roomId).socketsLeave(room.roomId);
+
+        console.log(`🏚️ Closed ${room.roomId} (${this.rooms.size} room(s) active)`);
+        this.openRooms.forEach(openRoom => openRoom.broadcastLobbyState());
+    }
+
+    getRoom(roomId) {
+        return this.rooms.get(roomId) || null;
+    }
+
+    getRoomForSocket(socketId) {
+        const roomId = this.socketRooms.get(socketId);
+        return roomId ? this.getRoom(roomId) : null;
+    }
+
+    // Move a socket into a room's Socket.IO channel
+    attachSocket(socket, room) {
+        const previous = this.socketRooms.get(socket.id);
+        if (previous && previous !== room.roomId) {
+            socket.leave(previous);
+        }
+        socket.leave(LOBBY_BROWSERS);
+        socket.join(room.roomId);
+        this.socketRooms.set(socket.id, room.roomId);
+    }
+
+    // Move a socket back to the lobby screen channel
+    detachSocket(socket) {
+        const roomId = this.socketRooms.get(socket.id);
+        if (roomId) socket.leave(roomId);
+        this.socketRooms.delete(socket.id);
+        socket.join(LOBBY_BROWSERS);
+    }
+
+    // New connection - starts out browsing the open lobbies
+    handleConnect(socket) {
+        socket.join(LOBBY_BROWSERS);
+        this.openRooms.forEach(room => socket.emit('lobby_update', room.getLobbyState()));
+    }
+
+    // Add a player to the open free lobby, or to a buy-in room with their confirmed deposit
+    async joinLobby(socket, walletAddress, room = null, deposit = null) {
+        // Token-gated servers look up the wallet's holdings before the room decides
+        await this.admission.resolve(walletAddress);
+        if (!socket.connected) {
+            return { success: false, reason: 'Disconnected' };
+        }
+        // The open lobby may have started during the lookup
+        room = room || this.getOpenRoom('free');
+
+        // Spectators and players looking at a results screen can move on to the new lobby
+        const current = this.getRoomForSocket(socket.id);
+        if (current) {
+            if (current.gamePhase !== 'results' && !current.spectators.has(socket.id)) {
+                return { success: false, reason: 'Already in a match' };
+            }
+            current.spectators.delete(socket.id);
+            this.detachSocket(socket);
+        }
+
+        // Same wallet can't play in two rooms at once
+        for (const room of this.rooms.values()) {
+            if (room.hasWallet(walletAddress)) {
+                return { success: false, reason: 'Wallet already in a match' };
+            }
+        }
+
+        // Join the Socket.IO room first - a full lobby starts the game immediately
+        this.attachSocket(socket, room);
+
+        const result = room.addPlayerToLobby(socket.id, walletAddress, deposit);
+        if (!result.success) {
+            this.detachSocket(socket);
+            return result;
+        }
+
+        return { ...result, room };
+    }
+
+    // Buy-in lobby: confirm the entry fee on chain, then join the room that owns the escrow.
+    // A valid deposit that can't be used (match started, lobby full, player gone) is refunded.
+    async joinBuyInLobby(socket, walletAddress, escrowAddress, depositSignature) {
+        const { escrows } = this.solanaService;
+        const escrow = escrows.get(escrowAddress);
+        // depositResolved tells the client to forget this deposit - retrying it can't work
+        if (!escrow) {
+            return { success: false, reason: 'Unknown buy-in lobby', depositResolved: true };
+        }
+        if (escrows.hasDepositSignature(depositSignature)) {
+            return { success: false, reason: 'Entry fee already used', depositResolved: true };
+        }
+
+        const check = await this.solanaService.verifyDeposit(escrowAddress, walletAddress, depositSignature, escrow.entryLamports);
+        if (!check.success) {
+            return { success: false, reason: check.reason, depositResolved: !check.retryable };
+        }
+        // A second join with the same transaction may have got here first
+        if (escrows.hasDepositSignature(depositSignature)) {
+            return { success: false, reason: 'Entry fee already used', depositResolved: true };
+        }
+
+        const deposit = escrows.addDeposit(escrowAddress, {
+            wallet: walletAddress,
+            signature: depositSignature,
+            lamports: check.lamports
+        });
+        console.log(`🎟️ Entry fee of ${check.lamports} lamports from ${walletAddress.slice(0, 8)}... confirmed for ${escrow.roomId}`);
+
+        const room = Array.from(this.rooms.values()).find(r => r.escrow && r.escrow.address === escrowAddress);
+        let result;
+        if (!socket.connected) {
+            result = { success: false, reason: 'Disconnected' };
+        } else if (!room || room.gamePhase !== 'lobby') {
+            result = { success: false, reason: 'That match has already started' };
+        } else {
+            result = await this.joinLobby(socket, walletAddress, room, deposit);
+        }
+
+        if (!result.success) {
+            this.solanaService.refundDeposits(escrowAddress, escrow.roomId, [deposit]).catch(error => {
+                console.error('❌ Entry fee refund failed:', error);
+            });
+            return { ...result, reason: `${result.reason} - entry fee refunded`, depositResolved: true };
+        }
+        return result;
+    }
+
+    // Watch a running match (or the open lobby if nothing is running). Players waiting in a
+    // lobby or playing can't - their slot (and any entry fee) would be left behind.
+    joinSpectator(socket, roomId) {
+        const current = this.getRoomForSocket(socket.id);
+        if (current && current.gamePhase !== 'results' && !current.spectators.has(socket.id)) {
+            return { success: false, reason: 'Already in a match' };
+        }
+
+        let room = roomId ? this.getRoom(roomId) : null;
+        if (!room) {
+            room = Array.from(this.rooms.values()).find(r => r.gamePhase === 'playing') || this.getOpenRoom('free');
+        }
+
+        if (current) current.spectators.delete(socket.id);
+        this.attachSocket(socket, room);
+        room.addSpectator(socket.id);
+        return { success: true, room };
+    }
+
+    // Find the room holding a resume token and re-attach the socket to it
+    resumeSession(socket, resumeToken) {
+        const room = Array.from(this.rooms.values()).find(r => r.sessions.has(resumeToken));
+        if (!room) {
+            return { success: false, reason: 'Session expired' };
+        }
+
+        const result = room.resumeSession(socket.id, resumeToken);
+        if (result.success) {
+            this.attachSocket(socket, room);
+        }
+        return { ...result, room };
+    }
+
+    // Socket dropped - returns the room it was in and whether its slot is being held
+    handleDisconnect(socketId) {
+        const room = this.getRoomForSocket(socketId);
+        this.socketRooms.delete(socketId);
+        if (!room) {
+            return { room: null, held: false };
+        }
+
+        const held = room.handleDisconnect(socketId);
+        return { room, held };
+    }
+
+    // Room list for /api/status
+    getRoomList() {
+        return Array.from(this.rooms.values()).map(room => ({
+            ...room.getRoomSummary(),
+            open: this.openRooms.get(room.lobbyType) === room
+        }));
+    }
+
+    // Scores across every running match
+    getLeaderboard() {
+        return Array.from(this.rooms.values())
+            .flatMap(room => room.getLeaderboard().map(entry => ({ ...entry, roomId: room.roomId })))
+            .sort((a, b) => b.score - a.score);
+    }
+}
+
+module.exports = RoomManager;
@@ -0,0 +1,96 @@
+// Per-frame cost of the proximity queries the game runs, scanning every item vs the
+// spatial grid.
+//
+//   npm run bench:spatial [coins] [frames]
+//
+// A player walks randomly around the 400x400 map with 1,000 coins (by default) on it.
+// Each frame does what the client does every frame - coin pickup check, nearest coin
+// for the HUD, collision with the town - and the results of both approaches are compared
+// so the grid can't win by being wrong.
+
+const assert = require('assert');
+const { SpatialGrid } = require('../spatialGrid.mjs');
+const { WalkableArea, generateLayout, overlapsCollider } = require('../worldLayout.mjs');
+const { loadMap } = require('../mapLoader');
+
+const COINS = parseInt(process.argv[2]) || 1000;
+const FRAMES = parseInt(process.argv[3]) || 20000;
+const MAP_SIZE = 400;
+const COLLECT_RADIUS = 1.5;
+const PLAYER_RADIUS = 0.5;
+
+// Deterministic so runs are comparable
+let seed = 42;
+function random() {
+    seed = (seed * 1664525 + 1013904223) % 4294967296;
+    return seed / 4294967296;
+}
+
+const coins = Array.from({ length: COINS }, (_, i) => ({
+    id: `penny_${i}`,
+    x: (random() - 0.5) * MAP_SIZE,
+    z: (random() - 0.5) * MAP_SIZE
+}));
+
+// A sprinting player sampled at 60fps
+const path = [];
+let x = 0;
+let z = 0;
+let heading = 0;
+for (let i = 0; i < FRAMES; i++) {
+    heading += (random() - 0.5) * 0.3;
+    x = Math.max(-190, Math.min(190, x + Math.cos(heading) * 0.36));
+    z = Math.max(-190, Math.min(190, z + Math.sin(heading) * 0.36));
+    path.push({ x, z });
+}
+
+const walkable = new WalkableArea(generateLayout(loadMap('old-city'), 1));
+const { colliders } = walkable;
+
+function scanFrame({ x, z }) {
+    const inRange = [];
+    let nearest = null;
+    for (const coin of coins) {
+        const distance = Math.hypot(coin.x - x, coin.z - z);
+        if (distance <= COLLECT_RADIUS) inRange.push(coin.id);
+        if (!nearest || distance < nearest.distance) nearest = { id: coin.id, distance };
+    }
+    const blocked = colliders.some(c => overlapsCollider(c, x, z, PLAYER_RADIUS));
+    return { inRange, nearest, blocked };
+}
+
+const coinGrid = new SpatialGrid({ size: MAP_SIZE });
+coins.forEach(c => coinGrid.insert(c.id, c.x, c.z));
+
+function gridFrame({ x, z }) {
+    const inRange = coinGrid.queryRadius(x, z, COLLECT_RADIUS);
+    const nearest = coinGrid.nearest(x, z);
+    const blocked = walkable.isBlocked(x, z, PLAYER_RADIUS);
+    return { inRange, nearest, blocked };
+}
+
+function run(name, frame) {
+    const results = [];
+    const start = process.hrtime.bigint();
+    for (const position of path) {
+        results.push(frame(position));
+    }
+    const microsPerFrame = Number(process.hrtime.bigint() - start) / 1000 / FRAMES;
+    console.log(`${name.padEnd(6)} ${microsPerFrame.toFixed(2).padStart(8)} µs/frame`);
+    return { results, microsPerFrame };
+}
+
+console.log(`📊 ${COINS} coins, ${colliders.length} colliders, ${FRAMES} frames`);
+run('warmup', scanFrame);
+run('warmup', gridFrame);
+const scan = run('scan', scanFrame);
+const grid = run('grid', gridFrame);
+
+scan.results.forEach((expected, i) => {
+    const actual = grid.results[i];
+    assert.deepStrictEqual([...actual.inRange].sort(), [...expected.inRange].sort(), `frame ${i}: coins in range differ`);
+    assert.strictEqual(actual.nearest.distance, expected.nearest.distance, `frame ${i}: nearest coin differs`);
+    assert.strictEqual(actual.blocked, expected.blocked, `frame ${i}: collision differs`);
+});
+
+console.log(`✅ Same results, grid is ${(scan.microsPerFrame / grid.microsPerFrame).toFixed(1)}x faster`);
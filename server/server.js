@@ -4,7 +4,9 @@ const { Server } = require('socket.io');
 const cors = require('cors');
 require('dotenv').config();
 
-const GameManager = require('./gameManager');
+const RoomManager = require('./roomManager');
+const WalletAuth = require('./walletAuth');
+const { validatePayload } = require('./validation');
 
 const app = express();
 app.use(cors());
@@ -20,81 +22,185 @@ const io = new Server(server, {
 });
 
 const PORT = process.env.PORT || 3001;
-const gameManager = new GameManager(io);
+const roomManager = new RoomManager(io);
+const walletAuth = new WalletAuth();
 
 // Voice chat rooms - track who's in voice
-const voiceRooms = new Map(); // socketId -> { inVoice: boolean, muted: boolean }
+const voiceRooms = new Map(); // socketId -> { inVoice: boolean, muted: boolean, roomId: string }
+
+// Register a client event handler that only runs for payloads passing runtime validation
+function onValidated(socket, event, handler) {
+    socket.on(event, (data) => {
+        const payload = validatePayload(event, data);
+        if (payload === null) {
+            console.warn(`⚠️ Rejected malformed ${event} payload from ${socket.id}`);
+            socket.emit('invalid_payload', { event });
+            return;
+        }
+        handler(payload);
+    });
+}
 
 // Socket.IO connection handling
 io.on('connection', (socket) => {
     console.log(`Player connected: ${socket.id}`);
+    roomManager.handleConnect(socket);
 
-    // Player joins lobby with wallet address
-    socket.on('join_lobby', (data) => {
+    // Step 1 of joining - get a message to sign with the wallet
+    onValidated(socket, 'request_wallet_challenge', (data) => {
         const { walletAddress } = data;
-        const result = gameManager.addPlayerToLobby(socket.id, walletAddress);
+        if (!roomManager.solanaService.isValidAddress(walletAddress)) {
+            socket.emit('lobby_joined', { success: false, reason: 'Invalid Solana wallet address' });
+            return;
+        }
+
+        if (!walletAuth.isRequired()) {
+            socket.emit('wallet_challenge', { required: false, walletAddress });
+            return;
+        }
+
+        socket.emit('wallet_challenge', {
+            required: true,
+            ...walletAuth.createChallenge(socket.id, walletAddress)
+        });
+    });
+
+    // Step 2 - player joins the open lobby with a signed challenge
+    // (buy-in lobbies also need the confirmed entry fee transaction)
+    onValidated(socket, 'join_lobby', async (data) => {
+        const { walletAddress, signature } = data;
+
+        if (!roomManager.solanaService.isValidAddress(walletAddress)) {
+            socket.emit('lobby_joined', { success: false, reason: 'Invalid Solana wallet address' });
+            return;
+        }
+
+        if (walletAuth.isRequired()) {
+            const auth = walletAuth.verify(socket.id, walletAddress, signature);
+            if (!auth.success) {
+                console.warn(`🔏 Wallet proof rejected for ${socket.id}: ${auth.reason}`);
+                socket.emit('lobby_joined', { success: false, reason: auth.reason });
+                return;
+            }
+        }
+
+        const result = data.lobbyType === 'buyin'
+            ? await roomManager.joinBuyInLobby(socket, walletAddress, data.escrowAddress, data.depositSignature)
+            : await roomManager.joinLobby(socket, walletAddress);
 
         if (result.success) {
             socket.walletAddress = walletAddress;
             socket.emit('lobby_joined', {
                 success: true,
                 playerId: socket.id,
-                lobbyState: gameManager.getLobbyState()
+                roomId: result.room.roomId,
+                resumeToken: result.resumeToken,
+                lobbyState: result.room.getLobbyState()
             });
-            io.emit('lobby_update', gameManager.getLobbyState());
+            result.room.broadcastLobbyState();
         } else {
             socket.emit('lobby_joined', {
                 success: false,
-                reason: result.reason
+                reason: result.reason,
+                refusal: result.refusal,
+                depositResolved: result.depositResolved
+            });
+        }
+    });
+
+    // Player re-attaches to their match after a dropped connection
+    onValidated(socket, 'resume_session', (data) => {
+        const result = roomManager.resumeSession(socket, data.resumeToken);
+
+        if (result.success) {
+            socket.walletAddress = result.walletAddress;
+            socket.emit('session_resumed', { success: true, state: result.state });
+            socket.to(result.room.roomId).emit('player_resumed', {
+                previousId: result.previousId,
+                player: {
+                    id: socket.id,
+                    walletAddress: result.walletAddress,
+                    position: result.state.position
+                }
             });
+        } else {
+            socket.emit('session_resumed', { success: false, reason: result.reason });
         }
     });
 
-    // Player joins as spectator
-    socket.on('join_spectator', () => {
-        gameManager.addSpectator(socket.id);
-        socket.join('spectators');
+    // Player joins as spectator (a specific room, or any running match)
+    onValidated(socket, 'join_spectator', (data) => {
+        const result = roomManager.joinSpectator(socket, data.roomId);
+        if (!result.success) {
+            socket.emit('spectator_joined', { success: false, reason: result.reason });
+            return;
+        }
         socket.emit('spectator_joined', {
-            gameState: gameManager.getGameState()
+            success: true,
+            gameState: result.room.getGameState()
         });
     });
 
-    // Player movement update
-    socket.on('player_move', (data) => {
-        gameManager.updatePlayerPosition(socket.id, data);
-        socket.broadcast.emit('player_moved', {
-            playerId: socket.id,
-            ...data
-        });
+    // Player movement update - relayed to others in the next world_snapshot
+    onValidated(socket, 'player_move', (data) => {
+        const room = roomManager.getRoomForSocket(socket.id);
+        if (!room) return;
+        const result = room.updatePlayerPosition(socket.id, data);
+
+        // Snap the client back to the authoritative position if the move was clamped
+        if (result && result.corrected) {
+            socket.emit('position_correction', {
+                position: result.position,
+                reason: result.reason
+            });
+        }
     });
 
-    // Player collects penny
-    socket.on('collect_penny', (data) => {
-        const result = gameManager.collectPenny(socket.id, data.pennyId);
-        if (result.success) {
-            io.emit('penny_collected', {
+    // Player collects penny - announced in the next world_snapshot, a refusal is answered
+    // right away so the client can claim the coin again
+    onValidated(socket, 'collect_penny', (data) => {
+        const room = roomManager.getRoomForSocket(socket.id);
+        if (!room) return;
+        const result = room.collectPenny(socket.id, data.pennyId);
+        if (!result.success) {
+            socket.emit('collect_rejected', {
                 pennyId: data.pennyId,
-                playerId: socket.id,
-                playerScore: result.playerScore
+                reason: result.reason
             });
-            io.emit('scores_update', gameManager.getScores());
         }
     });
 
+    // Pick up a power-up (validated and applied by the room)
+    onValidated(socket, 'collect_power_up', (data) => {
+        const room = roomManager.getRoomForSocket(socket.id);
+        if (!room) return;
+        room.collectPowerUp(socket.id, data.powerUpId);
+    });
+
+    // Open/close a door - the room checks range and tells everyone in the match
+    onValidated(socket, 'door_toggle', (data) => {
+        const room = roomManager.getRoomForSocket(socket.id);
+        if (!room) return;
+        room.toggleDoor(socket.id, data.doorId);
+    });
+
     // ============ VOICE CHAT SIGNALING ============
 
-    // Player joins voice chat
-    socket.on('voice_join', () => {
-        voiceRooms.set(socket.id, { inVoice: true, muted: false });
-        console.log(`🎤 Player ${socket.id} joined voice chat`);
+    // Player joins voice chat - voice is scoped to the player's match room
+    onValidated(socket, 'voice_join', () => {
+        const room = roomManager.getRoomForSocket(socket.id);
+        if (!room) return;
+
+        voiceRooms.set(socket.id, { inVoice: true, muted: false, roomId: room.roomId });
+        console.log(`🎤 Player ${socket.id} joined voice chat in ${room.roomId}`);
 
         // Notify all other voice users about new peer
-        socket.broadcast.emit('voice_peer_joined', { peerId: socket.id });
+        socket.to(room.roomId).emit('voice_peer_joined', { peerId: socket.id });
 
         // Send list of existing voice peers to new joiner
         const existingPeers = [];
         voiceRooms.forEach((state, peerId) => {
-            if (peerId !== socket.id && state.inVoice) {
+            if (peerId !== socket.id && state.inVoice && state.roomId === room.roomId) {
                 existingPeers.push(peerId);
             }
         });
@@ -102,14 +208,16 @@ io.on('connection', (socket) => {
     });
 
     // Player leaves voice chat
-    socket.on('voice_leave', () => {
+    onValidated(socket, 'voice_leave', () => {
+        const voiceState = voiceRooms.get(socket.id);
+        if (!voiceState) return;
         voiceRooms.delete(socket.id);
         console.log(`🔇 Player ${socket.id} left voice chat`);
-        socket.broadcast.emit('voice_peer_left', { peerId: socket.id });
+        socket.to(voiceState.roomId).emit('voice_peer_left', { peerId: socket.id });
     });
 
     // WebRTC signaling - offer
-    socket.on('voice_offer', (data) => {
+    onValidated(socket, 'voice_offer', (data) => {
         const { targetId, offer } = data;
         io.to(targetId).emit('voice_offer', {
             fromId: socket.id,
@@ -118,7 +226,7 @@ io.on('connection', (socket) => {
     });
 
     // WebRTC signaling - answer
-    socket.on('voice_answer', (data) => {
+    onValidated(socket, 'voice_answer', (data) => {
         const { targetId, answer } = data;
         io.to(targetId).emit('voice_answer', {
             fromId: socket.id,
@@ -127,7 +235,7 @@ io.on('connection', (socket) => {
     });
 
     // WebRTC signaling - ICE candidate
-    socket.on('voice_ice_candidate', (data) => {
+    onValidated(socket, 'voice_ice_candidate', (data) => {
         const { targetId, candidate } = data;
         io.to(targetId).emit('voice_ice_candidate', {
             fromId: socket.id,
@@ -136,11 +244,11 @@ io.on('connection', (socket) => {
     });
 
     // Toggle mute status
-    socket.on('voice_mute_toggle', (data) => {
+    onValidated(socket, 'voice_mute_toggle', (data) => {
         const voiceState = voiceRooms.get(socket.id);
         if (voiceState) {
             voiceState.muted = data.muted;
-            socket.broadcast.emit('voice_peer_muted', {
+            socket.to(voiceState.roomId).emit('voice_peer_muted', {
                 peerId: socket.id,
                 muted: data.muted
             });
@@ -152,29 +260,47 @@ io.on('connection', (socket) => {
     // Disconnect handling
     socket.on('disconnect', () => {
         console.log(`Player disconnected: ${socket.id}`);
+        walletAuth.clear(socket.id);
 
         // Clean up voice chat
-        if (voiceRooms.has(socket.id)) {
+        const voiceState = voiceRooms.get(socket.id);
+        if (voiceState) {
             voiceRooms.delete(socket.id);
-            socket.broadcast.emit('voice_peer_left', { peerId: socket.id });
+            io.to(voiceState.roomId).emit('voice_peer_left', { peerId: socket.id });
         }
 
-        gameManager.removePlayer(socket.id);
-        io.emit('lobby_update', gameManager.getLobbyState());
-        io.emit('player_left', { playerId: socket.id });
+        // Players in a running match keep their slot for a while so they can resume
+        const { room, held } = roomManager.handleDisconnect(socket.id);
+        if (room) {
+            room.broadcastLobbyState();
+            if (!held) {
+                room.emit('player_left', { playerId: socket.id });
+            }
+        }
     });
 });
 
 // REST endpoints
 app.get('/api/status', (req, res) => {
     res.json({
-        lobbyState: gameManager.getLobbyState(),
-        gameState: gameManager.getGameState()
+        lobbyState: roomManager.getOpenRoom('free').getLobbyState(),
+        buyInLobbyState: roomManager.buyIn ? roomManager.getOpenRoom('buyin').getLobbyState() : null,
+        rooms: roomManager.getRoomList()
+    });
+});
+
+// Payout ledger - ?status=pending|sent|confirmed|failed and ?wallet= filter the list
+app.get('/api/payouts', (req, res) => {
+    const { ledger } = roomManager.solanaService;
+    res.json({
+        summary: ledger.getSummary(),
+        payouts: ledger.list({ status: req.query.status, wallet: req.query.wallet })
     });
 });
 
 app.get('/api/leaderboard', (req, res) => {
-    res.json(gameManager.getLeaderboard());
+    const room = req.query.room ? roomManager.getRoom(req.query.room) : null;
+    res.json(room ? room.getLeaderboard() : roomManager.getLeaderboard());
 });
 
 server.listen(PORT, () => {
@@ -0,0 +1,67 @@
+const { clusterApiUrl } = require('@solana/web3.js');
+
+// Which Solana network to talk to, from SOLANA_CLUSTER:
+//   mainnet (default) | devnet | localnet (solana-test-validator) | any http(s) RPC URL
+// SOLANA_RPC_URL overrides the RPC endpoint for the named cluster.
+function resolveCluster() {
+    const setting = (process.env.SOLANA_CLUSTER || 'mainnet').trim();
+    const apiKey = process.env.HELIUS_API_KEY;
+    const hasHelius = apiKey && apiKey !== 'your_helius_api_key_here';
+
+    let name;
+    let rpcUrl;
+    if (/^https?:\/\//.test(setting)) {
+        name = 'custom';
+        rpcUrl = setting;
+    } else if (setting === 'devnet') {
+        name = 'devnet';
+        rpcUrl = hasHelius ? `https://devnet.helius-rpc.com/?api-key=${apiKey}` : clusterApiUrl('devnet');
+    } else if (setting === 'localnet' || setting === 'localhost') {
+        name = 'localnet';
+        rpcUrl = 'http://127.0.0.1:8899';
+    } else {
+        if (setting !== 'mainnet' && setting !== 'mainnet-beta') {
+            console.warn(`⚠️ Unknown SOLANA_CLUSTER "${setting}" - using mainnet`);
+        }
+        name = 'mainnet';
+        rpcUrl = hasHelius ? `https://mainnet.helius-rpc.com/?api-key=${apiKey}` : clusterApiUrl('mainnet-beta');
+    }
+
+    if (process.env.SOLANA_RPC_URL) {
+        rpcUrl = process.env.SOLANA_RPC_URL;
+    }
+
+    return {
+        name,
+        rpcUrl,
+        // Free test SOL is only available off mainnet
+        canAirdrop: name === 'devnet' || name === 'localnet'
+    };
+}
+
+// Is the RPC endpoint on this machine? Only those are safe to put in a link.
+function isLocalRpc(rpcUrl) {
+    try {
+        const { hostname } = new URL(rpcUrl);
+        return hostname === 'localhost' || hostname === '127.0.0.1';
+    } catch {
+        return false;
+    }
+}
+
+// Explorer link for a transaction on the given cluster, or null if there is no safe one
+function getExplorerTxUrl(cluster, signature) {
+    switch (cluster.name) {
+        case 'mainnet':
+            return `https://solscan.io/tx/${signature}`;
+        case 'devnet':
+            return `https://solscan.io/tx/${signature}?cluster=devnet`;
+        default:
+            // Solscan can't see private validators - the Solana Explorer can, through a custom RPC URL.
+            // Links go to every player, and remote RPC URLs often carry a provider API key.
+            if (!isLocalRpc(cluster.rpcUrl)) return null;
+            return `https://explorer.solana.com/tx/${signature}?cluster=custom&customUrl=${encodeURIComponent(cluster.rpcUrl)}`;
+    }
+}
+
+module.exports = { resolveCluster, getExplorerTxUrl };
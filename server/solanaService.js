@@ -1,11 +1,37 @@
-const { Connection, Keypair, PublicKey, Transaction, SystemProgram, LAMPORTS_PER_SOL } = require('@solana/web3.js');
+const { Connection, Keypair, PublicKey, Transaction, SystemProgram, LAMPORTS_PER_SOL, PACKET_DATA_SIZE } = require('@solana/web3.js');
+const bs58 = require('bs58');
+const PayoutLedger = require('./payoutLedger');
+const EscrowStore = require('./escrowStore');
+const { resolveCluster, getExplorerTxUrl } = require('./solanaCluster');
+const {
+    getAssociatedTokenAddress,
+    createAssociatedTokenAccountIdempotentInstruction,
+    createTransferCheckedInstruction,
+    getMintInfo,
+    parseUnits,
+    formatUnits
+} = require('./splToken');
+
+// bs58 v6 is ESM-first - the CommonJS build may hang its API off .default
+const bs58Encode = (bytes) => (bs58.encode || bs58.default.encode)(bytes);
+
+// Native SOL as a reward asset - SPL tokens look the same with their mint address set
+const SOL_ASSET = { symbol: 'SOL', decimals: 9, mint: null };
+
+// Rent for a new associated token account (~0.00204 SOL) plus a little headroom
+const TOKEN_ACCOUNT_RENT_LAMPORTS = 2100000;
+
+// Base units of a ledger entry (entries from before token support only have lamports)
+const entryUnits = (entry) => BigInt(entry.units ?? entry.lamports);
+
+// Escrow transfers per transaction - each one adds a recipient account and an instruction
+// (~49 bytes), so ~19 fit in a packet next to the two signatures. Kept below that.
+const ESCROW_TRANSFERS_PER_TX = 15;
 
 class SolanaService {
     constructor() {
-        this.apiKey = process.env.HELIUS_API_KEY;
-        this.rpcUrl = this.apiKey && this.apiKey !== 'your_helius_api_key_here'
-            ? `https://mainnet.helius-rpc.com/?api-key=${this.apiKey}`
-            : 'https://api.mainnet-beta.solana.com';
+        this.cluster = resolveCluster();
+        this.rpcUrl = this.cluster.rpcUrl;
         this.connection = null;
         this.rewardWallet = null;
 
@@ -15,13 +41,48 @@ class SolanaService {
         // Total reward pool per game (in SOL) - configurable via env
         this.rewardPoolPerGame = parseFloat(process.env.REWARD_POOL_PER_GAME) || 0.05;
 
+        // Optional SPL token rewards - decimals and token program are read from the mint
+        this.rewardToken = process.env.REWARD_TOKEN_MINT ? {
+            mint: process.env.REWARD_TOKEN_MINT.trim(),
+            symbol: process.env.REWARD_TOKEN_SYMBOL || 'TOKEN',
+            poolAmount: process.env.REWARD_TOKEN_POOL_PER_GAME || '0' // Whole tokens, decimals allowed
+        } : null;
+        this.mintInfo = new Map(); // mint address -> { decimals, programId }
+
+        // Last known reward wallet balance in SOL, shown in the lobby (refreshed by the payout worker)
+        this.rewardWalletBalance = null;
+        this.rewardWalletBalanceAt = 0;
+        this.balanceRefreshSeconds = 60;
+        this.recentPayoutMatches = parseInt(process.env.LOBBY_RECENT_PAYOUTS) || 3;
+
+        // Payout ledger + retry worker
+        this.ledger = new PayoutLedger();
+        this.inFlight = new Set(); // Ledger ids currently being paid
+        this.payoutMaxAttempts = parseInt(process.env.PAYOUT_MAX_ATTEMPTS) || 8;
+        this.payoutRetryBaseSeconds = parseInt(process.env.PAYOUT_RETRY_BASE_SECONDS) || 15;
+        this.payoutRetryMaxSeconds = parseInt(process.env.PAYOUT_RETRY_MAX_SECONDS) || 1800;
+        this.payoutWorkerIntervalSeconds = parseInt(process.env.PAYOUT_WORKER_INTERVAL_SECONDS) || 10;
+        this.payoutWorker = null;
+        this.payoutWorkerBusy = false;
+
+        // Buy-in match escrows - prizes and refunds are paid out of these
+        this.escrows = new EscrowStore();
+        this.escrowRentLamports = null; // Rent-exempt minimum of an escrow, read once from the cluster
+
+        // 'batch' packs all winner transfers into one atomic transaction, 'individual' sends one per winner
+        this.transferMode = process.env.REWARD_TRANSFER_MODE === 'individual' ? 'individual' : 'batch';
+
+        // Test clusters only - top the reward wallet up from the faucet when it runs low
+        this.autoAirdrop = process.env.AUTO_AIRDROP !== 'false';
+        this.airdropAmountSOL = parseFloat(process.env.AIRDROP_SOL) || (this.cluster.name === 'localnet' ? 10 : 1);
+
         this.initialize();
     }
 
     initialize() {
         try {
             this.connection = new Connection(this.rpcUrl, 'confirmed');
-            console.log('🌐 Connected to Solana RPC:', this.rpcUrl.includes('helius') ? 'Helius RPC' : 'Public RPC');
+            console.log(`🌐 Connected to Solana ${this.cluster.name} RPC:`, this.rpcUrl.includes('helius') ? 'Helius RPC' : this.rpcUrl);
 
             // Load reward wallet if private key exists
             let privateKey = process.env.REWARD_WALLET_PRIVATE_KEY;
@@ -55,7 +116,6 @@ class SolanaService {
 
                 try {
                     // Try base58 decode first
-                    const bs58 = require('bs58');
                     console.log('   bs58 module type:', typeof bs58);
                     console.log('   bs58.decode type:', typeof bs58.decode);
                     console.log('   bs58.default?.decode type:', typeof bs58.default?.decode);
@@ -75,14 +135,6 @@ class SolanaService {
                     console.log('💰 Reward wallet loaded successfully!');
                     console.log('   Public Key:', this.rewardWallet.publicKey.toString());
 
-                    // Check balance on startup
-                    this.getBalance(this.rewardWallet.publicKey.toString()).then(balance => {
-                        console.log(`   Balance: ${balance.toFixed(4)} SOL`);
-                        if (balance < this.rewardPoolPerGame + this.feeReserve) {
-                            console.warn(`⚠️ Warning: Low balance! Need at least ${(this.rewardPoolPerGame + this.feeReserve).toFixed(4)} SOL`);
-                        }
-                    });
-
                 } catch (e) {
                     // Log the base58 error to help debug
                     console.warn(`⚠️ Base58 decode failed: ${e.message}. Trying JSON format...`);
@@ -104,11 +156,65 @@ class SolanaService {
                 console.log('⚠️ No reward wallet configured - rewards will be SIMULATED');
                 console.log('   Set REWARD_WALLET_PRIVATE_KEY in .env to enable real rewards');
             }
+
+            if (this.rewardToken) {
+                if (!this.isValidAddress(this.rewardToken.mint)) {
+                    console.error(`❌ REWARD_TOKEN_MINT "${this.rewardToken.mint}" is not a valid address - token rewards disabled`);
+                    this.rewardToken = null;
+                } else if (!/^\d+(\.\d+)?$/.test(this.rewardToken.poolAmount.trim())) {
+                    console.error(`❌ REWARD_TOKEN_POOL_PER_GAME "${this.rewardToken.poolAmount}" is not a number - token rewards disabled`);
+                    this.rewardToken = null;
+                } else {
+                    this.getMintInfo(this.rewardToken.mint)
+                        .then(info => console.log(`🪙 Token rewards: ${this.rewardToken.poolAmount} ${this.rewardToken.symbol} per game (${info.decimals} decimals)`))
+                        .catch(error => console.error(`❌ Could not load reward token mint: ${error.message}`));
+                }
+            }
+
+            // Check balance on startup
+            if (this.rewardWallet) {
+                this.checkRewardWalletBalance().catch(error => {
+                    console.error('Reward wallet balance check failed:', error.message);
+                });
+            }
         } catch (error) {
             console.error('Failed to initialize Solana service:', error);
         }
     }
 
+    // Warn when the reward wallet can't cover a game - on devnet/localnet, airdrop instead
+    async checkRewardWalletBalance() {
+        const address = this.rewardWallet.publicKey.toString();
+        const needed = this.rewardPoolPerGame + this.feeReserve;
+
+        let balance = await this.getBalance(address);
+        console.log(`   Balance: ${balance.toFixed(4)} SOL`);
+
+        if (balance < needed && this.cluster.canAirdrop && this.autoAirdrop) {
+            await this.airdrop(address, this.airdropAmountSOL);
+            balance = await this.getBalance(address);
+            console.log(`   Balance after airdrop: ${balance.toFixed(4)} SOL`);
+        }
+
+        if (balance < needed) {
+            console.warn(`⚠️ Warning: Low balance! Need at least ${needed.toFixed(4)} SOL`);
+        }
+        return balance;
+    }
+
+    // Request test SOL from the cluster faucet (devnet / localnet only)
+    async airdrop(address, amountSOL) {
+        if (!this.cluster.canAirdrop) {
+            throw new Error(`Airdrops are not available on ${this.cluster.name}`);
+        }
+
+        console.log(`🪂 Requesting ${amountSOL} SOL airdrop for ${address.slice(0, 8)}... on ${this.cluster.name}`);
+        const signature = await this.connection.requestAirdrop(new PublicKey(address), Math.round(amountSOL * LAMPORTS_PER_SOL));
+        const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('confirmed');
+        await this.connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed');
+        return signature;
+    }
+
     // Validate a Solana wallet address
     isValidAddress(address) {
         try {
@@ -137,91 +243,632 @@ class SolanaService {
         return await this.getBalance(this.rewardWallet.publicKey.toString());
     }
 
-    // Send SOL to a recipient
-    async sendSOL(recipientAddress, amountSOL) {
-        if (!this.rewardWallet) {
-            console.log(`[SIMULATED] Would send ${amountSOL.toFixed(6)} SOL to ${recipientAddress}`);
-            return {
-                success: true,
-                simulated: true,
-                amount: amountSOL,
-                signature: 'SIMULATED_' + Date.now(),
-                txUrl: null
-            };
+    // Re-read the reward wallet balance for the lobby, at most once per balanceRefreshSeconds unless forced
+    async refreshRewardWalletBalance(force = false) {
+        if (!this.rewardWallet) return;
+        if (!force && Date.now() - this.rewardWalletBalanceAt < this.balanceRefreshSeconds * 1000) return;
+
+        this.rewardWalletBalanceAt = Date.now();
+        this.rewardWalletBalance = await this.getRewardPoolBalance();
+    }
+
+    // Whether payouts really happen, for the lobby screen and /api/status
+    getPayoutStatus() {
+        return {
+            payoutMode: this.rewardWallet ? 'live' : 'simulated',
+            cluster: this.cluster.name,
+            rewardWalletBalance: this.rewardWallet ? this.rewardWalletBalance : null
+        };
+    }
+
+    // Winners of the last few paid matches, newest first, with explorer links
+    getRecentPayouts(limit = this.recentPayoutMatches) {
+        return this.ledger.getRecentMatches(limit).map(match => ({
+            matchId: match.matchId,
+            finishedAt: match.createdAt,
+            winners: match.entries.map(entry => this.toRewardResult(entry))
+        }));
+    }
+
+    // Decimals and token program of a mint - cached, they never change
+    async getMintInfo(mintAddress) {
+        if (!this.mintInfo.has(mintAddress)) {
+            this.mintInfo.set(mintAddress, await getMintInfo(this.connection, new PublicKey(mintAddress)));
         }
+        return this.mintInfo.get(mintAddress);
+    }
 
-        try {
-            const lamports = Math.floor(amountSOL * LAMPORTS_PER_SOL);
+    // Reward token as an asset, or null until its mint has been loaded
+    getRewardTokenAsset() {
+        const info = this.rewardToken && this.mintInfo.get(this.rewardToken.mint);
+        return info ? { symbol: this.rewardToken.symbol, decimals: info.decimals, mint: this.rewardToken.mint } : null;
+    }
 
-            if (lamports <= 0) {
-                return { success: false, error: 'Amount too small to send' };
-            }
+    // A SOL pool for RewardStrategy.allocate()
+    getSolPool(lamports) {
+        return { asset: SOL_ASSET, units: BigInt(lamports) };
+    }
 
-            if (!this.isValidAddress(recipientAddress)) {
-                return { success: false, error: 'Invalid recipient address' };
-            }
+    // What a free match pays out, for its reward assets ('sol' and/or 'token')
+    getRewardPools(assets) {
+        const pools = [];
+        if (assets.includes('sol')) {
+            pools.push(this.getSolPool(this.getRewardPoolLamports()));
+        }
+        // Skipped while the mint is still loading (or failed to load)
+        const token = assets.includes('token') ? this.getRewardTokenAsset() : null;
+        if (token) {
+            pools.push({ asset: token, units: parseUnits(this.rewardToken.poolAmount, token.decimals) });
+        }
+        return pools;
+    }
 
-            // Check balance
-            const balance = await this.getBalance(this.rewardWallet.publicKey.toString());
-            if (balance < amountSOL + 0.001) { // 0.001 SOL for tx fee
-                console.error(`❌ Insufficient balance: ${balance.toFixed(4)} SOL, need ${(amountSOL + 0.001).toFixed(4)} SOL`);
-                return { success: false, error: 'Insufficient balance in reward wallet' };
+    // Build and sign a transfer from `source` (the reward wallet or a buy-in escrow) to one
+    // or more ledger entries, in SOL or SPL tokens. Token recipients without a token account
+    // get one created (idempotently) in the same transaction. The reward wallet always pays
+    // fees and rent, so an escrow can be emptied exactly. `sweepLamports` sends that much
+    // more from the source to the reward wallet (the leftovers of an escrow being emptied).
+    // The signature is known before anything is sent, so it can be written to the
+    // ledger first - a crash after sending can then never pay the same reward twice.
+    async createTransfer(entries, source = this.rewardWallet, sweepLamports = 0n) {
+        const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('confirmed');
+
+        const transaction = new Transaction();
+        for (const entry of entries) {
+            const recipient = new PublicKey(entry.wallet);
+            if (!entry.mint) {
+                transaction.add(
+                    SystemProgram.transfer({
+                        fromPubkey: source.publicKey,
+                        toPubkey: recipient,
+                        lamports: Number(entryUnits(entry))
+                    })
+                );
+                continue;
             }
 
-            const recipientPubkey = new PublicKey(recipientAddress);
-            const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('confirmed');
-
-            const transaction = new Transaction().add(
+            const mint = new PublicKey(entry.mint);
+            const { programId } = await this.getMintInfo(entry.mint);
+            const destination = getAssociatedTokenAddress(mint, recipient, programId);
+            transaction.add(
+                createAssociatedTokenAccountIdempotentInstruction(this.rewardWallet.publicKey, destination, recipient, mint, programId),
+                createTransferCheckedInstruction(
+                    getAssociatedTokenAddress(mint, source.publicKey, programId),
+                    mint,
+                    destination,
+                    source.publicKey,
+                    entryUnits(entry),
+                    entry.decimals,
+                    programId
+                )
+            );
+        }
+        if (sweepLamports > 0n) {
+            transaction.add(
                 SystemProgram.transfer({
-                    fromPubkey: this.rewardWallet.publicKey,
-                    toPubkey: recipientPubkey,
-                    lamports
+                    fromPubkey: source.publicKey,
+                    toPubkey: this.rewardWallet.publicKey,
+                    lamports: Number(sweepLamports)
                 })
             );
+        }
+        transaction.recentBlockhash = blockhash;
+        transaction.feePayer = this.rewardWallet.publicKey;
+        if (source === this.rewardWallet) {
+            transaction.sign(this.rewardWallet);
+        } else {
+            transaction.sign(this.rewardWallet, source);
+        }
 
-            transaction.recentBlockhash = blockhash;
-            transaction.feePayer = this.rewardWallet.publicKey;
+        return {
+            transaction,
+            signature: bs58Encode(transaction.signature),
+            blockhash,
+            lastValidBlockHeight
+        };
+    }
 
-            // Sign and send
-            console.log(`📤 Sending ${amountSOL.toFixed(6)} SOL to ${recipientAddress.slice(0, 8)}...`);
-            const signature = await this.connection.sendTransaction(transaction, [this.rewardWallet], {
-                skipPreflight: false,
-                preflightCommitment: 'confirmed'
+    // Send a signed transfer and wait for confirmation. Throws if it failed on chain.
+    async submitTransfer(transfer) {
+        await this.connection.sendRawTransaction(transfer.transaction.serialize(), {
+            skipPreflight: false,
+            preflightCommitment: 'confirmed'
+        });
+
+        console.log(`⏳ Waiting for confirmation... TX: ${transfer.signature}`);
+        const confirmation = await this.connection.confirmTransaction({
+            signature: transfer.signature,
+            blockhash: transfer.blockhash,
+            lastValidBlockHeight: transfer.lastValidBlockHeight
+        }, 'confirmed');
+
+        if (confirmation.value.err) {
+            throw new Error('Transaction failed on chain');
+        }
+    }
+
+    // What happened to a previously sent transfer?
+    // 'confirmed' | 'failed' (landed with an error) | 'expired' (never landed, safe to resend) | 'pending'
+    async getTransferStatus(signature, lastValidBlockHeight) {
+        const { value } = await this.connection.getSignatureStatus(signature, { searchTransactionHistory: true });
+        if (value) {
+            if (value.err) return 'failed';
+            if (value.confirmationStatus === 'confirmed' || value.confirmationStatus === 'finalized') return 'confirmed';
+            return 'pending';
+        }
+
+        const blockHeight = await this.connection.getBlockHeight('confirmed');
+        return blockHeight > lastValidBlockHeight ? 'expired' : 'pending';
+    }
+
+    // Try to pay one ledger entry. Safe to call repeatedly - an entry that already has
+    // a transfer in flight is checked on chain before anything new is sent.
+    // Entries paid out of a buy-in escrow are settled together with everything else the
+    // escrow still owes (see settleEscrow).
+    async processPayout(entry) {
+        if (entry.source && this.rewardWallet) {
+            await this.settleEscrow(entry.source);
+            return this.ledger.get(entry.id);
+        }
+        if (this.inFlight.has(entry.id)) return entry;
+        this.inFlight.add(entry.id);
+
+        try {
+            if (!this.rewardWallet) {
+                console.log(`[SIMULATED] Would send ${entry.amount} ${entry.symbol || 'SOL'} to ${entry.wallet}`);
+                return this.ledger.update(entry.id, {
+                    status: 'confirmed',
+                    simulated: true,
+                    signature: 'SIMULATED_' + Date.now(),
+                    lastError: null
+                });
+            }
+
+            // Transfer from an earlier attempt - find out whether it landed before sending again
+            if (entry.signature) {
+                const status = await this.getTransferStatus(entry.signature, entry.lastValidBlockHeight);
+                if (status === 'confirmed') {
+                    console.log(`✅ Earlier transfer for ${entry.id} confirmed: ${entry.signature}`);
+                    return this.ledger.update(entry.id, { status: 'confirmed', lastError: null });
+                }
+                if (status === 'pending') {
+                    return this.ledger.update(entry.id, {
+                        status: 'sent',
+                        nextAttemptAt: Date.now() + this.payoutRetryBaseSeconds * 1000
+                    });
+                }
+                console.warn(`🔁 Transfer ${entry.signature} ${status} - retrying ${entry.id} with a fresh blockhash`);
+            }
+
+            // Every real send counts towards the retry budget
+            this.ledger.update(entry.id, { attempts: entry.attempts + 1 });
+
+            if (entryUnits(entry) <= 0n) {
+                return this.ledger.update(entry.id, { status: 'failed', lastError: 'Amount too small to send' });
+            }
+            if (!this.isValidAddress(entry.wallet)) {
+                return this.ledger.update(entry.id, { status: 'failed', lastError: 'Invalid recipient address' });
+            }
+
+            const source = this.getPayoutSource(entry);
+            if (!source) {
+                return this.ledger.update(entry.id, { status: 'failed', lastError: 'Escrow key not found' });
+            }
+            await this.checkSourceBalances([entry], source);
+
+            const transfer = await this.createTransfer([entry], source);
+            this.ledger.update(entry.id, {
+                status: 'sent',
+                signature: transfer.signature,
+                lastValidBlockHeight: transfer.lastValidBlockHeight
             });
 
-            // Wait for confirmation with timeout
-            console.log(`⏳ Waiting for confirmation... TX: ${signature}`);
-            const confirmation = await this.connection.confirmTransaction({
-                signature,
-                blockhash,
-                lastValidBlockHeight
-            }, 'confirmed');
-
-            if (confirmation.value.err) {
-                console.error('❌ Transaction failed:', confirmation.value.err);
-                return { success: false, error: 'Transaction failed on chain', signature };
+            console.log(`📤 Sending ${entry.amount} ${entry.symbol || 'SOL'} to ${entry.wallet.slice(0, 8)}... (attempt ${entry.attempts})`);
+            await this.submitTransfer(transfer);
+
+            console.log(`✅ Sent ${entry.amount} ${entry.symbol || 'SOL'} to ${entry.wallet.slice(0, 8)}...`);
+            console.log(`   🔗 ${this.getTxUrl(transfer.signature) || transfer.signature}`);
+            return this.ledger.update(entry.id, { status: 'confirmed', lastError: null });
+        } catch (error) {
+            return this.schedulePayoutRetry(entry, error.message);
+        } finally {
+            this.inFlight.delete(entry.id);
+        }
+    }
+
+    // Pay several ledger entries in one atomic transaction. Returns false (without
+    // touching the entries) if the batch can't be used, so the caller can fall back
+    // to per-winner sends. A failed batch leaves every entry queued for the worker,
+    // which retries them one by one.
+    async processPayoutBatch(entries) {
+        if (!this.rewardWallet || entries.length < 2) return false;
+        if (entries.some(e => e.signature || entryUnits(e) <= 0n || !this.isValidAddress(e.wallet) || this.inFlight.has(e.id))) {
+            return false;
+        }
+        // Every transfer in one transaction has to come out of the same account
+        if (entries.some(e => e.source !== entries[0].source)) return false;
+        const source = this.getPayoutSource(entries[0]);
+        if (!source) return false;
+
+        entries.forEach(e => this.inFlight.add(e.id));
+        try {
+            await this.checkSourceBalances(entries, source);
+
+            const transfer = await this.createTransfer(entries, source);
+            const size = transfer.transaction.serialize().length;
+            if (size > PACKET_DATA_SIZE) {
+                console.warn(`📦 Batch of ${entries.length} transfers is ${size} bytes (limit ${PACKET_DATA_SIZE}) - sending individually`);
+                return false;
             }
 
-            const txUrl = `https://solscan.io/tx/${signature}`;
-            console.log(`✅ Sent ${amountSOL.toFixed(6)} SOL to ${recipientAddress.slice(0, 8)}...`);
-            console.log(`   🔗 ${txUrl}`);
+            for (const entry of entries) {
+                this.ledger.update(entry.id, {
+                    status: 'sent',
+                    signature: transfer.signature,
+                    lastValidBlockHeight: transfer.lastValidBlockHeight,
+                    attempts: entry.attempts + 1
+                });
+            }
+
+            console.log(`📤 Sending ${entries.length} transfers in one transaction`);
+            await this.submitTransfer(transfer);
 
-            return {
-                success: true,
-                signature,
-                amount: amountSOL,
-                txUrl
-            };
+            console.log(`✅ Batch payout confirmed`);
+            console.log(`   🔗 ${this.getTxUrl(transfer.signature) || transfer.signature}`);
+            for (const entry of entries) {
+                this.ledger.update(entry.id, { status: 'confirmed', lastError: null });
+            }
         } catch (error) {
-            console.error('Error sending SOL:', error.message);
-            return { success: false, error: error.message };
+            console.error(`❌ Batch payout failed: ${error.message}`);
+            for (const entry of entries) {
+                if (entry.attempts === 0) this.ledger.update(entry.id, { attempts: 1 });
+                this.schedulePayoutRetry(entry, error.message);
+            }
+        } finally {
+            entries.forEach(e => this.inFlight.delete(e.id));
         }
+        return true;
+    }
+
+    // Account a ledger entry is paid from - null if its escrow key is missing
+    getPayoutSource(entry) {
+        return entry.source ? this.escrows.getKeypair(entry.source) : this.rewardWallet;
     }
 
-    // Distribute rewards to top players with proportional rewards
-    async distributeRewards(winners, rewardPercents) {
-        const results = [];
+    // Throws if the paying account can't cover the entries - SOL plus, when it is the
+    // reward wallet, the fee and rent for any token accounts it may have to create
+    async checkSourceBalances(entries, source) {
+        const sourceName = entries[0].source ? 'escrow' : 'reward wallet';
+        const tokenEntries = entries.filter(e => e.mint);
 
+        let lamportsNeeded = entries.filter(e => !e.mint).reduce((sum, e) => sum + entryUnits(e), 0n);
+        if (source === this.rewardWallet) {
+            lamportsNeeded += BigInt(Math.round(0.001 * LAMPORTS_PER_SOL) + tokenEntries.length * TOKEN_ACCOUNT_RENT_LAMPORTS); // 0.001 SOL for tx fees
+        }
+        const lamports = await this.connection.getBalance(source.publicKey);
+        if (BigInt(lamports) < lamportsNeeded) {
+            throw new Error(`Insufficient balance in ${sourceName} (${(lamports / LAMPORTS_PER_SOL).toFixed(4)} SOL)`);
+        }
+
+        for (const mint of new Set(tokenEntries.map(e => e.mint))) {
+            const needed = tokenEntries.filter(e => e.mint === mint).reduce((sum, e) => sum + entryUnits(e), 0n);
+            const { programId } = await this.getMintInfo(mint);
+            const tokenAccount = getAssociatedTokenAddress(new PublicKey(mint), source.publicKey, programId);
+            let balance = 0n;
+            try {
+                balance = BigInt((await this.connection.getTokenAccountBalance(tokenAccount)).value.amount);
+            } catch {
+                // No token account yet - nothing to pay with
+            }
+            if (balance < needed) {
+                const { symbol, decimals } = tokenEntries.find(e => e.mint === mint);
+                throw new Error(`Insufficient ${symbol} in ${sourceName} (${formatUnits(balance, decimals)} ${symbol})`);
+            }
+        }
+    }
+
+    // Pay freshly recorded ledger entries - in one transaction if possible, otherwise one by one.
+    // Returns whether they went out as a batch.
+    async payEntries(entries) {
+        const pending = entries.filter(e => e.status === 'pending');
+        // Escrows are always settled as a whole, whatever the transfer mode
+        if (pending.length > 0 && pending[0].source && this.rewardWallet) {
+            return await this.settleEscrow(pending[0].source) === 1;
+        }
+        const batched = this.transferMode === 'batch' && await this.processPayoutBatch(pending);
+        if (!batched) {
+            for (const entry of pending) {
+                await this.processPayout(entry);
+            }
+        }
+        return batched;
+    }
+
+    // Pay everything a buy-in escrow still owes - prizes, house cut and refunds. Solana rejects
+    // a transfer that leaves an account with less than its rent-exempt minimum but more than
+    // nothing, so paying them one by one can get stuck: with two 0.001 SOL entries and a 5%
+    // house cut, sending first place alone would leave 0.00086 SOL behind. Instead they go
+    // out together - in one transaction if they fit, otherwise in chunks, smallest first, so
+    // every chunk but the last leaves the escrow rent-exempt and the last one empties it.
+    // Lamports nobody is owed (a stray transfer in) are swept to the reward wallet when
+    // leaving them would break the rule.
+    // Returns the number of transactions sent.
+    async settleEscrow(address) {
+        const lockKey = `escrow:${address}`;
+        if (this.inFlight.has(lockKey)) return 0;
+        this.inFlight.add(lockKey);
+
+        let unpaid = [];
+        try {
+            const owed = await this.getEscrowBacklog(address);
+            if (!owed) return 0; // A transfer is still in flight - check again later
+
+            const source = this.escrows.getKeypair(address);
+            for (const entry of owed) {
+                let error = null;
+                if (!source) error = 'Escrow key not found';
+                else if (entryUnits(entry) <= 0n) error = 'Amount too small to send';
+                else if (!this.isValidAddress(entry.wallet)) error = 'Invalid recipient address';
+                if (error) {
+                    this.ledger.update(entry.id, { status: 'failed', lastError: error });
+                } else {
+                    unpaid.push(entry);
+                }
+            }
+            if (unpaid.length === 0) return 0;
+
+            await this.checkSourceBalances(unpaid, source);
+            const balance = BigInt(await this.connection.getBalance(source.publicKey));
+            const rentLamports = await this.getEscrowRentLamports();
+
+            const ordered = [...unpaid].sort((a, b) => (entryUnits(a) < entryUnits(b) ? -1 : entryUnits(a) > entryUnits(b) ? 1 : 0));
+            let remaining = balance;
+            let sent = 0;
+            for (let i = 0; i < ordered.length; i += ESCROW_TRANSFERS_PER_TX) {
+                const chunk = ordered.slice(i, i + ESCROW_TRANSFERS_PER_TX);
+                const last = i + ESCROW_TRANSFERS_PER_TX >= ordered.length;
+                remaining -= chunk.reduce((sum, e) => sum + entryUnits(e), 0n);
+
+                let sweep = 0n;
+                if (remaining > 0n && remaining < rentLamports) {
+                    if (!last) throw new Error('Escrow payouts can\'t be split without dropping below rent exemption');
+                    sweep = remaining;
+                    console.log(`🧹 Sweeping ${sweep} leftover lamports from escrow ${address.slice(0, 8)}... to the reward wallet`);
+                }
+
+                const transfer = await this.createTransfer(chunk, source, sweep);
+                const size = transfer.transaction.serialize().length;
+                if (size > PACKET_DATA_SIZE) {
+                    throw new Error(`Escrow payout of ${chunk.length} transfers is ${size} bytes (limit ${PACKET_DATA_SIZE})`);
+                }
+                for (const entry of chunk) {
+                    this.ledger.update(entry.id, {
+                        status: 'sent',
+                        signature: transfer.signature,
+                        lastValidBlockHeight: transfer.lastValidBlockHeight,
+                        attempts: entry.attempts + 1
+                    });
+                }
+
+                console.log(`📤 Settling ${chunk.length} payout(s) from escrow ${address.slice(0, 8)}...`);
+                await this.submitTransfer(transfer);
+                sent++;
+
+                console.log(`✅ Escrow payout confirmed`);
+                console.log(`   🔗 ${this.getTxUrl(transfer.signature) || transfer.signature}`);
+                for (const entry of chunk) {
+                    this.ledger.update(entry.id, { status: 'confirmed', lastError: null });
+                }
+                unpaid = unpaid.filter(entry => !chunk.includes(entry));
+            }
+            return sent;
+        } catch (error) {
+            console.error(`❌ Escrow payout failed: ${error.message}`);
+            for (const entry of unpaid) {
+                if (entry.attempts === 0) this.ledger.update(entry.id, { attempts: 1 });
+                this.schedulePayoutRetry(entry, error.message);
+            }
+            return 0;
+        } finally {
+            this.inFlight.delete(lockKey);
+        }
+    }
+
+    // Entries an escrow still has to pay, after checking on chain what happened to transfers
+    // sent earlier - null while one of them may still land
+    async getEscrowBacklog(address) {
+        const open = this.ledger.getOpenBySource(address);
+        const owed = open.filter(entry => !entry.signature);
+
+        for (const signature of new Set(open.filter(e => e.signature).map(e => e.signature))) {
+            const entries = open.filter(e => e.signature === signature);
+            const status = await this.getTransferStatus(signature, entries[0].lastValidBlockHeight);
+            if (status === 'confirmed') {
+                console.log(`✅ Earlier escrow transfer confirmed: ${signature}`);
+                entries.forEach(entry => this.ledger.update(entry.id, { status: 'confirmed', lastError: null }));
+            } else if (status === 'pending') {
+                entries.forEach(entry => this.ledger.update(entry.id, {
+                    status: 'sent',
+                    nextAttemptAt: Date.now() + this.payoutRetryBaseSeconds * 1000
+                }));
+                return null;
+            } else {
+                console.warn(`🔁 Escrow transfer ${signature} ${status} - resending with a fresh blockhash`);
+                owed.push(...entries);
+            }
+        }
+        return owed;
+    }
+
+    async getEscrowRentLamports() {
+        if (this.escrowRentLamports === null) {
+            this.escrowRentLamports = BigInt(await this.connection.getMinimumBalanceForRentExemption(0));
+        }
+        return this.escrowRentLamports;
+    }
+
+    // Back off exponentially; after PAYOUT_MAX_ATTEMPTS the entry is left as 'failed'
+    // for manual review (its last signature stays in the ledger to check on chain)
+    schedulePayoutRetry(entry, errorMessage) {
+        const attempts = Math.max(entry.attempts, 1);
+        if (attempts >= this.payoutMaxAttempts) {
+            console.error(`❌ Payout ${entry.id} failed for good after ${attempts} attempt(s): ${errorMessage}`);
+            return this.ledger.update(entry.id, { status: 'failed', lastError: errorMessage });
+        }
+
+        const delaySeconds = Math.min(this.payoutRetryBaseSeconds * 2 ** (attempts - 1), this.payoutRetryMaxSeconds);
+        console.warn(`⚠️ Payout ${entry.id} failed (${errorMessage}) - retrying in ${delaySeconds}s`);
+        return this.ledger.update(entry.id, {
+            // With a signature on record the next run checks the chain before resending
+            status: entry.signature ? 'sent' : 'pending',
+            lastError: errorMessage,
+            nextAttemptAt: Date.now() + delaySeconds * 1000
+        });
+    }
+
+    // Background retry of anything still owed - also picks up transfers left in flight by a restart
+    startPayoutWorker() {
+        if (this.payoutWorker) return;
+
+        const run = async () => {
+            if (this.payoutWorkerBusy) return;
+            this.payoutWorkerBusy = true;
+            try {
+                for (const entry of this.ledger.getDue()) {
+                    await this.processPayout(entry);
+                }
+                await this.refreshRewardWalletBalance();
+            } catch (error) {
+                console.error('Payout worker error:', error);
+            } finally {
+                this.payoutWorkerBusy = false;
+            }
+        };
+
+        this.payoutWorker = setInterval(run, this.payoutWorkerIntervalSeconds * 1000);
+        run();
+    }
+
+    stopPayoutWorker() {
+        if (this.payoutWorker) {
+            clearInterval(this.payoutWorker);
+            this.payoutWorker = null;
+        }
+    }
+
+    getTxUrl(signature) {
+        return getExplorerTxUrl(this.cluster, signature);
+    }
+
+    // Shape a ledger entry for the rewards_distributed event
+    toRewardResult(entry) {
+        const sent = entry.status === 'confirmed';
+        return {
+            place: entry.place,
+            wallet: entry.wallet,
+            coins: entry.coins,
+            percent: entry.percent,
+            amount: entry.amount,
+            symbol: entry.symbol || SOL_ASSET.symbol,
+            decimals: entry.decimals ?? SOL_ASSET.decimals,
+            mint: entry.mint || null,
+            units: entryUnits(entry).toString(),
+            success: sent,
+            status: entry.status,
+            signature: entry.signature,
+            txUrl: sent && !entry.simulated ? this.getTxUrl(entry.signature) : null,
+            simulated: entry.simulated,
+            error: sent ? null : entry.lastError
+        };
+    }
+
+    // Check an entry fee on chain: a confirmed, successful transaction in which walletAddress
+    // sent at least minLamports to the escrow. Returns the lamports actually paid, or
+    // a reason plus whether the same transaction may pass if checked again later.
+    async verifyDeposit(escrowAddress, walletAddress, signature, minLamports) {
+        let tx;
+        try {
+            tx = await this.connection.getParsedTransaction(signature, {
+                commitment: 'confirmed',
+                maxSupportedTransactionVersion: 0
+            });
+        } catch (error) {
+            console.warn(`⚠️ Deposit lookup failed for ${signature}: ${error.message}`);
+            return { success: false, reason: 'Could not look up the entry fee transaction', retryable: true };
+        }
+
+        if (!tx) {
+            return { success: false, reason: 'Entry fee transaction not confirmed yet', retryable: true };
+        }
+        if (tx.meta && tx.meta.err) {
+            return { success: false, reason: 'Entry fee transaction failed' };
+        }
+
+        const lamports = tx.transaction.message.instructions
+            .filter(ix => ix.program === 'system' && ix.parsed && ix.parsed.type === 'transfer')
+            .filter(ix => ix.parsed.info.source === walletAddress && ix.parsed.info.destination === escrowAddress)
+            .reduce((sum, ix) => sum + ix.parsed.info.lamports, 0);
+
+        if (lamports === 0) {
+            return { success: false, reason: 'Transaction does not pay the entry fee from this wallet' };
+        }
+        if (lamports < minLamports) {
+            return { success: false, reason: `Entry fee underpaid (${lamports} of ${minLamports} lamports)` };
+        }
+        return { success: true, lamports };
+    }
+
+    // Send entry fees back out of an escrow. Refunds go through the payout ledger
+    // (keyed by deposit signature), so a failed one is retried by the worker and
+    // none is ever paid twice.
+    async refundDeposits(escrowAddress, roomId, deposits) {
+        if (deposits.length === 0) return [];
+
+        const entries = this.ledger.record(`refund_${escrowAddress}`, roomId, deposits.map(deposit => ({
+            key: deposit.signature,
+            kind: 'refund',
+            source: escrowAddress,
+            place: 0,
+            wallet: deposit.wallet,
+            coins: 0,
+            percent: 0,
+            ...SOL_ASSET,
+            units: String(deposit.lamports),
+            amount: deposit.lamports / LAMPORTS_PER_SOL
+        })));
+        deposits.forEach(deposit => this.escrows.markRefunded(escrowAddress, deposit.signature));
+
+        console.log(`↩️ Refunding ${deposits.length} entry fee(s) from escrow ${escrowAddress.slice(0, 8)}...`);
+        await this.payEntries(entries);
+        return entries.map(entry => this.toRewardResult(entry));
+    }
+
+    // Lobbies and matches don't survive a restart - give back whatever their escrows still hold
+    async refundAbandonedEscrows() {
+        const abandoned = this.escrows.getAbandoned();
+        for (const escrow of abandoned) {
+            const deposits = this.escrows.getHeldDeposits(escrow.address);
+            if (deposits.length === 0) {
+                this.escrows.update(escrow.address, { status: 'refunded' });
+                continue;
+            }
+
+            console.warn(`🔐 Escrow for ${escrow.roomId} was left ${escrow.status} - refunding ${deposits.length} deposit(s)`);
+            this.escrows.update(escrow.address, { status: 'refunded' });
+            await this.refundDeposits(escrow.address, escrow.roomId, deposits);
+        }
+    }
+
+    // Reward pool for one match in whole lamports - what RewardStrategy splits
+    getRewardPoolLamports() {
+        return Math.round(this.rewardPoolPerGame * LAMPORTS_PER_SOL);
+    }
+
+    // Pay the winners exactly what RewardStrategy.allocate() gave them, in every reward asset.
+    // Every reward is written to the payout ledger first, so anything that fails
+    // here is retried by the payout worker instead of being lost.
+    // Buy-in matches pay out of their escrow, which also sends the house cut to the reward wallet.
+    async distributeRewards(matchId, roomId, winners, { escrowAddress = null, houseLamports = 0 } = {}) {
         console.log('\n🏆 ═══════════════════════════════════════');
         console.log('🏆 DISTRIBUTING REWARDS');
         console.log('🏆 ═══════════════════════════════════════');
@@ -231,75 +878,92 @@ class SolanaService {
             return { success: false, results: [], error: 'No winners' };
         }
 
-        // Get current balance
-        const balance = await this.getRewardPoolBalance();
-        console.log(`💰 Reward Wallet Balance: ${balance.toFixed(4)} SOL`);
-        console.log(`💰 Reward Pool Per Game: ${this.rewardPoolPerGame} SOL`);
-        console.log(`👥 Winners: ${winners.length}`);
-
-        // Check if we have enough balance
-        const totalNeeded = this.rewardPoolPerGame + this.feeReserve;
-        if (balance < totalNeeded && this.rewardWallet) {
-            console.error(`❌ Insufficient balance! Have: ${balance.toFixed(4)} SOL, Need: ${totalNeeded.toFixed(4)} SOL`);
-            return {
-                success: false,
-                results: [],
-                error: `Insufficient balance. Need ${totalNeeded.toFixed(4)} SOL but only have ${balance.toFixed(4)} SOL`
-            };
+        if (escrowAddress) {
+            console.log(`💰 Buy-in pot from escrow ${escrowAddress}`);
+        } else {
+            console.log('💰 Paid from the reward wallet');
         }
-
-        // Normalize percentages to ensure they sum to 100%
-        const numWinners = Math.min(winners.length, 3);
-        const totalPercent = rewardPercents.slice(0, numWinners).reduce((a, b) => a + b, 0);
+        console.log(`👥 Winners: ${winners.length}`);
 
         console.log('\n📊 Reward Distribution:');
 
-        for (let i = 0; i < numWinners; i++) {
-            const winner = winners[i];
-            const rawPercent = rewardPercents[i];
-            const normalizedPercent = (rawPercent / totalPercent) * 100;
-            const amountSOL = (this.rewardPoolPerGame * normalizedPercent) / 100;
-
-            console.log(`\n🎖️ Place ${i + 1}: ${winner.walletAddress}`);
-            console.log(`   Coins: ${winner.score}`);
-            console.log(`   Share: ${normalizedPercent.toFixed(2)}%`);
-            console.log(`   Amount: ${amountSOL.toFixed(6)} SOL`);
-
-            const result = await this.sendSOL(winner.walletAddress, amountSOL);
-
-            results.push({
-                place: i + 1,
-                wallet: winner.walletAddress,
-                coins: winner.score,
-                percent: normalizedPercent,
-                amount: amountSOL,
-                success: result.success,
-                signature: result.signature || null,
-                txUrl: result.txUrl || null,
-                simulated: result.simulated || false,
-                error: result.error || null
+        const payouts = winners.flatMap(winner => {
+            console.log(`\n🎖️ Place ${winner.place}: ${winner.walletAddress}`);
+            console.log(`   Score: ${winner.score}`);
+            console.log(`   Share: ${winner.rewardPercent.toFixed(2)}%`);
+
+            return winner.rewards.map(reward => {
+                const amount = formatUnits(reward.units, reward.decimals);
+                console.log(`   Amount: ${amount} ${reward.symbol}`);
+
+                return {
+                    // SOL keeps the plain place as its key so older ledger entries still match
+                    key: reward.mint ? `${winner.place}:${reward.mint}` : winner.place,
+                    place: winner.place,
+                    source: escrowAddress,
+                    wallet: winner.walletAddress,
+                    coins: winner.score,
+                    percent: winner.rewardPercent,
+                    ...reward,
+                    amount
+                };
+            });
+        });
+
+        // Rides along in the same batch as the prizes
+        if (escrowAddress && houseLamports > 0 && this.rewardWallet) {
+            console.log(`\n🏠 House cut: ${(houseLamports / LAMPORTS_PER_SOL).toFixed(9)} SOL`);
+            payouts.push({
+                key: 'house',
+                kind: 'house',
+                source: escrowAddress,
+                place: 0,
+                wallet: this.rewardWallet.publicKey.toBase58(),
+                coins: 0,
+                percent: 0,
+                ...SOL_ASSET,
+                units: String(houseLamports),
+                amount: houseLamports / LAMPORTS_PER_SOL
             });
-
-            // Small delay between transactions
-            if (i < numWinners - 1 && result.success && !result.simulated) {
-                await new Promise(resolve => setTimeout(resolve, 500));
-            }
         }
 
+        const entries = this.ledger.record(matchId, roomId, payouts);
+
+        // One transaction for everyone if possible, otherwise pay in place order.
+        // Either way, failures stay in the ledger for the worker.
+        const batched = await this.payEntries(entries);
+        const results = entries
+            .filter(entry => entry.kind !== 'house')
+            .map(entry => this.toRewardResult(entry));
+
         const successCount = results.filter(r => r.success).length;
-        const totalDistributed = results.filter(r => r.success).reduce((sum, r) => sum + r.amount, 0);
+        // Per asset symbol, e.g. { SOL: 0.05, BONK: 1500 }
+        const totalDistributed = {};
+        for (const result of results.filter(r => r.success)) {
+            totalDistributed[result.symbol] = (totalDistributed[result.symbol] || 0) + result.amount;
+        }
 
         console.log('\n🏆 ═══════════════════════════════════════');
         console.log(`🏆 DISTRIBUTION COMPLETE`);
-        console.log(`   ✅ Successful: ${successCount}/${numWinners}`);
-        console.log(`   💰 Total Distributed: ${totalDistributed.toFixed(6)} SOL`);
+        console.log(`   ✅ Successful: ${successCount}/${results.length}`);
+        console.log(`   🔁 Queued for retry: ${results.filter(r => r.status === 'pending' || r.status === 'sent').length}`);
+        console.log(`   💰 Total Distributed: ${Object.entries(totalDistributed).map(([symbol, amount]) => `${amount} ${symbol}`).join(' + ') || 'nothing'}`);
         console.log('🏆 ═══════════════════════════════════════\n');
 
+        // The lobby shows what's left for the next matches
+        this.refreshRewardWalletBalance(true);
+
+        // A confirmed batch has a single signature shared by every winner
+        const batchSignature = batched && results.every(r => r.success) ? results[0].signature : null;
+
         return {
             success: successCount > 0,
             results,
             totalDistributed,
-            successCount
+            successCount,
+            batched: batchSignature !== null,
+            signature: batchSignature,
+            txUrl: batchSignature ? this.getTxUrl(batchSignature) : null
         };
     }
 }
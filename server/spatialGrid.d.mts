@@ -0,0 +1,23 @@
+// Types for spatialGrid.mjs, for the client
+export interface SpatialGridOptions {
+    size?: number; // Map width, centred on the origin
+    cellSize?: number;
+}
+
+export interface NearestResult<Id> {
+    id: Id;
+    distance: number;
+}
+
+export class SpatialGrid<Id = string> {
+    constructor(options?: SpatialGridOptions);
+    readonly size: number;
+    insert(id: Id, x: number, z: number, halfWidth?: number, halfDepth?: number): void;
+    move(id: Id, x: number, z: number): void;
+    remove(id: Id): void;
+    has(id: Id): boolean;
+    clear(): void;
+    queryBox(minX: number, minZ: number, maxX: number, maxZ: number): Id[];
+    queryRadius(x: number, z: number, radius: number): Id[];
+    nearest(x: number, z: number, maxDistance?: number, accept?: ((id: Id) => boolean) | null): NearestResult<Id> | null;
+}
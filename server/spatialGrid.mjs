@@ -0,0 +1,153 @@
+// Uniform grid over the map for "what is near this point" queries - colliders, coins and
+// players. Each item is an axis-aligned box (a point has zero extent) and is listed in
+// every cell it overlaps, so a query only looks at the few cells around it instead of
+// every item on the map.
+//
+// Plain ES module with no dependencies so the client (Vite) and the server (require()
+// of ESM, Node 20.19+) share it. Types are in spatialGrid.d.mts.
+export class SpatialGrid {
+    // size: width of the square map centred on the origin; items outside it land in the edge cells
+    constructor({ size = 400, cellSize = 10 } = {}) {
+        this.half = size / 2;
+        this.cellSize = cellSize;
+        this.cellsPerSide = Math.ceil(size / cellSize);
+        this.cells = new Map(); // cell index -> Set of ids
+        this.items = new Map(); // id -> { x, z, halfWidth, halfDepth, cells, stamp }
+        this.stamp = 0; // Marks items already returned by the current query
+    }
+
+    get size() {
+        return this.items.size;
+    }
+
+    cellCoord(value) {
+        const cell = Math.floor((value + this.half) / this.cellSize);
+        return Math.max(0, Math.min(this.cellsPerSide - 1, cell));
+    }
+
+    // Add an item, or move it if the id is already in the grid
+    insert(id, x, z, halfWidth = 0, halfDepth = halfWidth) {
+        if (this.items.has(id)) this.remove(id);
+
+        const item = { x, z, halfWidth, halfDepth, cells: [], stamp: 0 };
+        for (let cz = this.cellCoord(z - halfDepth); cz <= this.cellCoord(z + halfDepth); cz++) {
+            for (let cx = this.cellCoord(x - halfWidth); cx <= this.cellCoord(x + halfWidth); cx++) {
+                const index = cz * this.cellsPerSide + cx;
+                let cell = this.cells.get(index);
+                if (!cell) {
+                    cell = new Set();
+                    this.cells.set(index, cell);
+                }
+                cell.add(id);
+                item.cells.push(index);
+            }
+        }
+        this.items.set(id, item);
+    }
+
+    // Move an item, keeping its extent. Cheap when it stays in the same cell.
+    move(id, x, z) {
+        const item = this.items.get(id);
+        if (!item) return;
+
+        if (item.halfWidth === 0 && item.halfDepth === 0
+            && item.cells[0] === this.cellCoord(z) * this.cellsPerSide + this.cellCoord(x)) {
+            item.x = x;
+            item.z = z;
+            return;
+        }
+        this.insert(id, x, z, item.halfWidth, item.halfDepth);
+    }
+
+    remove(id) {
+        const item = this.items.get(id);
+        if (!item) return;
+
+        for (const index of item.cells) {
+            const cell = this.cells.get(index);
+            cell.delete(id);
+            if (cell.size === 0) this.cells.delete(index);
+        }
+        this.items.delete(id);
+    }
+
+    has(id) {
+        return this.items.has(id);
+    }
+
+    clear() {
+        this.cells.clear();
+        this.items.clear();
+    }
+
+    // Ids of items whose box overlaps the given box
+    queryBox(minX, minZ, maxX, maxZ) {
+        const stamp = ++this.stamp;
+        const found = [];
+
+        for (let cz = this.cellCoord(minZ); cz <= this.cellCoord(maxZ); cz++) {
+            for (let cx = this.cellCoord(minX); cx <= this.cellCoord(maxX); cx++) {
+                const cell = this.cells.get(cz * this.cellsPerSide + cx);
+                if (!cell) continue;
+
+                for (const id of cell) {
+                    const item = this.items.get(id);
+                    if (item.stamp === stamp) continue;
+                    item.stamp = stamp;
+
+                    if (item.x + item.halfWidth >= minX && item.x - item.halfWidth <= maxX
+                        && item.z + item.halfDepth >= minZ && item.z - item.halfDepth <= maxZ) {
+                        found.push(id);
+                    }
+                }
+            }
+        }
+        return found;
+    }
+
+    // Ids of items whose box touches the circle - for points, exactly those within `radius`
+    queryRadius(x, z, radius) {
+        return this.queryBox(x - radius, z - radius, x + radius, z + radius).filter(id => {
+            const item = this.items.get(id);
+            const dx = Math.max(Math.abs(x - item.x) - item.halfWidth, 0);
+            const dz = Math.max(Math.abs(z - item.z) - item.halfDepth, 0);
+            return dx * dx + dz * dz <= radius * radius;
+        });
+    }
+
+    // Closest item (by its centre) within maxDistance, searching outwards ring by ring of
+    // cells. `accept` can skip items. Returns { id, distance } or null.
+    nearest(x, z, maxDistance = Infinity, accept = null) {
+        const centreX = this.cellCoord(x);
+        const centreZ = this.cellCoord(z);
+        const maxRing = Math.min(this.cellsPerSide, Math.ceil(maxDistance / this.cellSize) + 1);
+        let best = null;
+
+        for (let ring = 0; ring <= maxRing; ring++) {
+            // Anything in this ring or beyond is at least this far away
+            if (best && best.distance <= (ring - 1) * this.cellSize) break;
+
+            for (let cz = centreZ - ring; cz <= centreZ + ring; cz++) {
+                if (cz < 0 || cz >= this.cellsPerSide) continue;
+                const edgeRow = cz === centreZ - ring || cz === centreZ + ring;
+
+                for (let cx = centreX - ring; cx <= centreX + ring; cx += edgeRow ? 1 : 2 * ring) {
+                    if (cx >= 0 && cx < this.cellsPerSide) {
+                        const cell = this.cells.get(cz * this.cellsPerSide + cx);
+                        if (cell) {
+                            for (const id of cell) {
+                                const item = this.items.get(id);
+                                const distance = Math.hypot(item.x - x, item.z - z);
+                                if (distance <= maxDistance && (!best || distance < best.distance) && (!accept || accept(id))) {
+                                    best = { id, distance };
+                                }
+                            }
+                        }
+                    }
+                    if (ring === 0) break;
+                }
+            }
+        }
+        return best;
+    }
+}
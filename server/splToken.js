@@ -0,0 +1,93 @@
+const { PublicKey, SystemProgram, TransactionInstruction } = require('@solana/web3.js');
+
+// The handful of SPL Token instructions reward payouts need, built directly on
+// web3.js. Names and account orders follow @solana/spl-token.
+const TOKEN_PROGRAM_ID = new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
+const TOKEN_2022_PROGRAM_ID = new PublicKey('TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb');
+const ASSOCIATED_TOKEN_PROGRAM_ID = new PublicKey('ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL');
+
+// Token account a wallet holds `mint` in
+function getAssociatedTokenAddress(mint, owner, programId = TOKEN_PROGRAM_ID) {
+    const [address] = PublicKey.findProgramAddressSync(
+        [owner.toBuffer(), programId.toBuffer(), mint.toBuffer()],
+        ASSOCIATED_TOKEN_PROGRAM_ID
+    );
+    return address;
+}
+
+// Creates the associated token account, or does nothing if it already exists. Payer covers rent.
+function createAssociatedTokenAccountIdempotentInstruction(payer, associatedToken, owner, mint, programId = TOKEN_PROGRAM_ID) {
+    return new TransactionInstruction({
+        programId: ASSOCIATED_TOKEN_PROGRAM_ID,
+        keys: [
+            { pubkey: payer, isSigner: true, isWritable: true },
+            { pubkey: associatedToken, isSigner: false, isWritable: true },
+            { pubkey: owner, isSigner: false, isWritable: false },
+            { pubkey: mint, isSigner: false, isWritable: false },
+            { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+            { pubkey: programId, isSigner: false, isWritable: false }
+        ],
+        data: Buffer.from([1]) // CreateIdempotent
+    });
+}
+
+// Transfer that the token program rejects unless `decimals` matches the mint
+function createTransferCheckedInstruction(source, mint, destination, owner, amount, decimals, programId = TOKEN_PROGRAM_ID) {
+    const data = Buffer.alloc(10);
+    data.writeUInt8(12, 0); // TransferChecked
+    data.writeBigUInt64LE(BigInt(amount), 1);
+    data.writeUInt8(decimals, 9);
+
+    return new TransactionInstruction({
+        programId,
+        keys: [
+            { pubkey: source, isSigner: false, isWritable: true },
+            { pubkey: mint, isSigner: false, isWritable: false },
+            { pubkey: destination, isSigner: false, isWritable: true },
+            { pubkey: owner, isSigner: true, isWritable: false }
+        ],
+        data
+    });
+}
+
+// Decimals and owning token program (classic or Token-2022) of a mint
+async function getMintInfo(connection, mint) {
+    const { value } = await connection.getParsedAccountInfo(mint);
+    if (!value) {
+        throw new Error(`Mint ${mint.toBase58()} not found`);
+    }
+    if (!value.owner.equals(TOKEN_PROGRAM_ID) && !value.owner.equals(TOKEN_2022_PROGRAM_ID)) {
+        throw new Error(`${mint.toBase58()} is not an SPL token mint`);
+    }
+    return {
+        decimals: value.data.parsed.info.decimals,
+        programId: value.owner
+    };
+}
+
+// "12.5" with 6 decimals -> 12500000n, without going through floats
+function parseUnits(value, decimals) {
+    const match = /^(\d+)(?:\.(\d+))?$/.exec(String(value).trim());
+    if (!match) {
+        throw new Error(`Invalid token amount "${value}"`);
+    }
+    const fraction = (match[2] || '').slice(0, decimals).padEnd(decimals, '0');
+    return BigInt(match[1] + fraction);
+}
+
+// 12500000n with 6 decimals -> 12.5 (for logs and display only)
+function formatUnits(units, decimals) {
+    return Number(BigInt(units)) / 10 ** decimals;
+}
+
+module.exports = {
+    TOKEN_PROGRAM_ID,
+    TOKEN_2022_PROGRAM_ID,
+    ASSOCIATED_TOKEN_PROGRAM_ID,
+    getAssociatedTokenAddress,
+    createAssociatedTokenAccountIdempotentInstruction,
+    createTransferCheckedInstruction,
+    getMintInfo,
+    parseUnits,
+    formatUnits
+};
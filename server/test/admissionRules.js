@@ -0,0 +1,83 @@
+// Who may join a lobby - allow/deny lists and the token gate, decided from cached
+// holdings so nothing here touches the network.
+
+const { describe, test, after } = require('node:test');
+const assert = require('node:assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { Keypair } = require('@solana/web3.js');
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'coinsniffer-')); // Never server/data
+process.env.PAYOUT_LEDGER_FILE = path.join(dataDir, 'payouts.json');
+process.env.ESCROW_FILE = path.join(dataDir, 'escrows.json');
+process.env.REWARD_WALLET_PRIVATE_KEY = '';
+
+const SolanaService = require('../solanaService');
+const AdmissionRules = require('../admissionRules');
+
+const solana = new SolanaService();
+after(() => fs.rmSync(dataDir, { recursive: true, force: true }));
+
+const ADMISSION_VARS = ['ADMISSION_LIST_FILE', 'ADMISSION_TOKEN_MINT', 'ADMISSION_TOKEN_MIN_BALANCE', 'ADMISSION_NFT_COLLECTION'];
+const [alice, bob, carol] = [Keypair.generate(), Keypair.generate(), Keypair.generate()].map(k => k.publicKey.toBase58());
+const mint = Keypair.generate().publicKey.toBase58();
+
+// Rules built from the given ADMISSION_* settings, with the list file written to the temp dir
+function createRules(t, { lists, ...env }) {
+    if (lists) {
+        env.ADMISSION_LIST_FILE = path.join(dataDir, `${t.name}.json`);
+        fs.writeFileSync(env.ADMISSION_LIST_FILE, JSON.stringify(lists));
+    }
+    ADMISSION_VARS.forEach(name => delete process.env[name]);
+    Object.assign(process.env, env);
+    t.after(() => ADMISSION_VARS.forEach(name => delete process.env[name]));
+    return new AdmissionRules(solana);
+}
+
+const holds = (rules, wallet, tokenUnits, hasNft = null) =>
+    rules.holdings.set(wallet, { tokenUnits, hasNft, expiresAt: Date.now() + 60000 });
+
+describe('AdmissionRules.evaluate', () => {
+    test('anyone gets in when nothing is configured', (t) => {
+        assert.strictEqual(createRules(t, {}).evaluate(alice), null);
+    });
+
+    test('an allowlist alone makes the server invite-only', (t) => {
+        const rules = createRules(t, { lists: { allow: [alice], deny: [bob] } });
+
+        assert.strictEqual(rules.evaluate(alice), null);
+        assert.strictEqual(rules.evaluate(bob).code, 'denylisted');
+        assert.strictEqual(rules.evaluate(carol).code, 'not_allowlisted');
+    });
+
+    test('the token gate needs the minimum balance', (t) => {
+        solana.mintInfo.set(mint, { decimals: 6 });
+        const rules = createRules(t, { ADMISSION_TOKEN_MINT: mint, ADMISSION_TOKEN_MIN_BALANCE: '2.5' });
+        holds(rules, alice, 2500000n);
+        holds(rules, bob, 2499999n);
+
+        assert.strictEqual(rules.evaluate(alice), null);
+        const refusal = rules.evaluate(bob);
+        assert.strictEqual(refusal.code, 'token_gated');
+        assert.match(refusal.reason, /has 2\.499999/);
+        assert.strictEqual(rules.evaluate(carol).code, 'gate_unavailable'); // Never looked up
+    });
+
+    test('allowlisted wallets skip the token gate, denylisted ones never get in', (t) => {
+        solana.mintInfo.set(mint, { decimals: 0 });
+        const rules = createRules(t, { ADMISSION_TOKEN_MINT: mint, lists: { allow: [alice], deny: [bob] } });
+        holds(rules, bob, 100n);
+
+        assert.strictEqual(rules.evaluate(alice), null);
+        assert.strictEqual(rules.evaluate(bob).code, 'denylisted');
+    });
+
+    test('an unreadable list keeps the previous rules', (t) => {
+        const rules = createRules(t, { lists: { deny: [bob] } });
+        fs.writeFileSync(rules.listFile, '{ not json');
+        rules.listMtime = 0; // As if the file changed
+
+        assert.strictEqual(rules.evaluate(bob).code, 'denylisted');
+    });
+});
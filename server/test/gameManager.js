@@ -0,0 +1,72 @@
+// GameManager rules that decide who gets paid - run offline, the reward wallet is
+// left unconfigured so payouts are only simulated.
+
+const { describe, test, after } = require('node:test');
+const assert = require('node:assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { Keypair } = require('@solana/web3.js');
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'coinsniffer-')); // Never server/data
+process.env.PAYOUT_LEDGER_FILE = path.join(dataDir, 'payouts.json');
+process.env.ESCROW_FILE = path.join(dataDir, 'escrows.json');
+process.env.REWARD_WALLET_PRIVATE_KEY = '';
+process.env.REWARD_ASSETS = 'sol';
+process.env.REWARD_STRATEGY = 'proportional';
+
+const SolanaService = require('../solanaService');
+const GameManager = require('../gameManager');
+
+const solana = new SolanaService();
+after(() => fs.rmSync(dataDir, { recursive: true, force: true }));
+
+const WALLETS = [Keypair.generate(), Keypair.generate(), Keypair.generate()].map(k => k.publicKey.toBase58());
+
+// Match with three players already running - scores 30 / 20 / 10
+function startMatch(t) {
+    const events = [];
+    const io = { to: () => ({ emit: (event, data) => events.push({ event, data }) }) };
+    const game = new GameManager(io, `room_${t.name}`, solana);
+    t.after(() => game.destroy());
+
+    WALLETS.forEach((wallet, i) => game.addPlayerToLobby(`socket_${i}`, wallet));
+    game.startGame();
+    WALLETS.forEach((_, i) => {
+        game.players.get(`socket_${i}`).score = 30 - i * 10;
+    });
+    return { game, events };
+}
+
+describe('GameManager rewards', () => {
+    test('flagged wallets are ranked but never paid', (t) => {
+        const { game, events } = startMatch(t);
+        game.players.get('socket_0').rejectedClaims = game.suspiciousClaimThreshold;
+
+        game.endGame();
+        const gameEnd = events.find(e => e.event === 'game_end').data;
+
+        assert.deepStrictEqual(gameEnd.flaggedPlayers.map(f => f.walletAddress), [WALLETS[0]]);
+        assert.strictEqual(gameEnd.rankings.length, 3);
+        assert.deepStrictEqual(gameEnd.winners.map(w => w.walletAddress), [WALLETS[1], WALLETS[2]]);
+        const paid = gameEnd.winners.reduce((sum, w) => sum + BigInt(w.rewards[0].units), 0n);
+        assert.strictEqual(paid, BigInt(gameEnd.rewardPools[0].units));
+    });
+
+    test('retrying the same out-of-range coin counts as one rejected claim', (t) => {
+        const { game } = startMatch(t);
+        const player = game.players.get('socket_0');
+        const far = Array.from(game.pennies.entries())
+            .filter(([, penny]) => !game.isWithinReach(player, penny.position, game.collectRadius))
+            .slice(0, 2);
+
+        for (let i = 0; i < 10; i++) {
+            assert.strictEqual(game.collectPenny('socket_0', far[0][0]).reason, 'out_of_range');
+        }
+        assert.strictEqual(player.rejectedClaims, 1);
+
+        game.collectPenny('socket_0', far[1][0]);
+        assert.strictEqual(player.rejectedClaims, 2);
+        assert.strictEqual(game.isPlayerFlagged(player), false);
+    });
+});
@@ -0,0 +1,91 @@
+// RewardStrategy.allocate - every strategy pays out exactly the pool, in whole base units.
+
+const { describe, test } = require('node:test');
+const assert = require('node:assert');
+const RewardStrategy = require('../rewardStrategy');
+
+const SOL = { symbol: 'SOL', decimals: 9, mint: null };
+const TOKEN = { symbol: 'TOKEN', decimals: 6, mint: 'mint' };
+
+const players = (...scores) => scores.map((score, i) => ({ id: `p${i + 1}`, walletAddress: `wallet${i + 1}`, score }));
+const unitsOf = (winner, symbol = 'SOL') => BigInt(winner.rewards.find(r => r.symbol === symbol)?.units ?? 0);
+const total = (winners, symbol = 'SOL') => winners.reduce((sum, w) => sum + unitsOf(w, symbol), 0n);
+
+describe('RewardStrategy.allocate', () => {
+    test('every strategy pays out exactly the pool', () => {
+        const ranked = players(37, 23, 11, 5);
+        const pools = [{ asset: SOL, units: 500000001n }, { asset: TOKEN, units: 999999n }];
+
+        for (const strategy of [
+            new RewardStrategy({ name: 'proportional' }),
+            new RewardStrategy({ name: 'fixed', fixedSplit: [45, 35, 20] }),
+            new RewardStrategy({ name: 'winner_take_all' }),
+            new RewardStrategy({ name: 'decay', topN: 4, decay: 0.3 })
+        ]) {
+            const winners = strategy.allocate(ranked, pools);
+            assert.strictEqual(total(winners), 500000001n, `${strategy.name} SOL total`);
+            assert.strictEqual(total(winners, 'TOKEN'), 999999n, `${strategy.name} token total`);
+            winners.forEach((w, i) => assert.strictEqual(w.place, i + 1));
+        }
+    });
+
+    test('uneven lamport remainders go to first place', () => {
+        const strategy = new RewardStrategy({ name: 'proportional' });
+        const winners = strategy.allocate(players(10, 10, 10), [{ asset: SOL, units: 10n }]);
+
+        assert.deepStrictEqual(winners.map(w => unitsOf(w)), [4n, 3n, 3n]);
+    });
+
+    test('shares follow the weights', () => {
+        const strategy = new RewardStrategy({ name: 'fixed', fixedSplit: [50, 30, 20] });
+        const winners = strategy.allocate(players(3, 2, 1), [{ asset: SOL, units: 1000n }]);
+
+        assert.deepStrictEqual(winners.map(w => unitsOf(w)), [500n, 300n, 200n]);
+        assert.deepStrictEqual(winners.map(w => Math.round(w.rewardPercent)), [50, 30, 20]);
+    });
+
+    test('a single player takes the whole pool', () => {
+        for (const name of ['proportional', 'fixed', 'winner_take_all', 'decay']) {
+            const winners = new RewardStrategy({ name }).allocate(players(4), [{ asset: SOL, units: 123457n }]);
+
+            assert.strictEqual(winners.length, 1, name);
+            assert.strictEqual(unitsOf(winners[0]), 123457n, name);
+        }
+    });
+
+    test('nobody collecting anything splits the pool equally', () => {
+        const winners = new RewardStrategy({ name: 'proportional' }).allocate(players(0, 0), [{ asset: SOL, units: 7n }]);
+
+        assert.deepStrictEqual(winners.map(w => unitsOf(w)), [4n, 3n]);
+    });
+
+    test('players below the minimum score win nothing', () => {
+        const strategy = new RewardStrategy({ name: 'proportional', minScore: 10 });
+        const winners = strategy.allocate(players(30, 9, 12), [{ asset: SOL, units: 1000n }]);
+
+        assert.deepStrictEqual(winners.map(w => w.id), ['p1', 'p3']);
+        assert.strictEqual(total(winners), 1000n);
+    });
+
+    test('only the paid places win', () => {
+        const winners = new RewardStrategy({ name: 'decay', topN: 2 }).allocate(players(5, 4, 3), [{ asset: SOL, units: 90n }]);
+
+        assert.deepStrictEqual(winners.map(w => unitsOf(w)), [60n, 30n]);
+    });
+
+    test('empty pools and empty rankings pay nothing', () => {
+        const strategy = new RewardStrategy();
+
+        assert.deepStrictEqual(strategy.allocate(players(5), [{ asset: SOL, units: 0n }]), []);
+        assert.deepStrictEqual(strategy.allocate([], [{ asset: SOL, units: 100n }]), []);
+    });
+});
+
+describe('RewardStrategy.fromEnv', () => {
+    test('falls back on unknown strategies and bad splits', () => {
+        const strategy = RewardStrategy.fromEnv({ REWARD_STRATEGY: 'lottery', REWARD_FIXED_SPLIT: '50,abc' });
+
+        assert.strictEqual(strategy.name, 'proportional');
+        assert.deepStrictEqual(strategy.fixedSplit, [50, 30, 20]);
+    });
+});
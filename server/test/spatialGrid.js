@@ -0,0 +1,67 @@
+// SpatialGrid lookups give the same answers as scanning everything.
+
+const { describe, test } = require('node:test');
+const assert = require('node:assert');
+const { SpatialGrid } = require('../spatialGrid.mjs');
+const { createRandom } = require('../worldLayout.mjs');
+
+describe('SpatialGrid', () => {
+    test('radius queries match a full scan', () => {
+        const random = createRandom(1);
+        const grid = new SpatialGrid({ size: 200, cellSize: 10 });
+        const points = new Map();
+        for (let i = 0; i < 500; i++) {
+            const point = { x: (random() - 0.5) * 200, z: (random() - 0.5) * 200 };
+            points.set(`coin_${i}`, point);
+            grid.insert(`coin_${i}`, point.x, point.z);
+        }
+
+        for (let i = 0; i < 50; i++) {
+            const x = (random() - 0.5) * 200;
+            const z = (random() - 0.5) * 200;
+            const radius = random() * 30;
+            const expected = Array.from(points).filter(([, p]) => Math.hypot(p.x - x, p.z - z) <= radius).map(([id]) => id);
+
+            assert.deepStrictEqual(grid.queryRadius(x, z, radius).sort(), expected.sort());
+
+            const nearest = grid.nearest(x, z);
+            const closest = Math.min(...Array.from(points.values(), p => Math.hypot(p.x - x, p.z - z)));
+            assert.strictEqual(nearest.distance, closest);
+        }
+    });
+
+    test('move and remove update lookups', () => {
+        const grid = new SpatialGrid({ size: 100 });
+        grid.insert('a', 0, 0);
+        grid.insert('b', 40, 40);
+
+        grid.move('a', 30, 30);
+        assert.deepStrictEqual(grid.queryRadius(0, 0, 5), []);
+        assert.strictEqual(grid.nearest(31, 31).id, 'a');
+
+        grid.remove('a');
+        assert.ok(!grid.has('a'));
+        assert.strictEqual(grid.nearest(31, 31).id, 'b');
+        assert.strictEqual(grid.nearest(31, 31, 5), null);
+
+        grid.clear();
+        assert.strictEqual(grid.nearest(40, 40), null);
+    });
+
+    test('objects with a size are found from every cell they cover', () => {
+        const grid = new SpatialGrid({ size: 100, cellSize: 10 });
+        grid.insert('wall', 0, 0, 25, 1);
+
+        assert.deepStrictEqual(grid.queryRadius(22, 0, 1), ['wall']);
+        assert.deepStrictEqual(grid.queryBox(-24, -2, -20, 2), ['wall']);
+        assert.deepStrictEqual(grid.queryRadius(0, 20, 1), []);
+    });
+
+    test('nearest skips what accept turns down', () => {
+        const grid = new SpatialGrid({ size: 100 });
+        grid.insert('near', 1, 0);
+        grid.insert('far', 10, 0);
+
+        assert.strictEqual(grid.nearest(0, 0, Infinity, id => id !== 'near').id, 'far');
+    });
+});
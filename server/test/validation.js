@@ -0,0 +1,56 @@
+// Inbound socket payloads are sanitized or refused before any handler sees them.
+
+const { describe, test } = require('node:test');
+const assert = require('node:assert');
+const { validatePayload } = require('../validation');
+
+describe('validatePayload', () => {
+    test('keeps only the known fields', () => {
+        const move = validatePayload('player_move', {
+            position: { x: 1, y: 1.7, z: -2, extra: true },
+            rotation: { x: 0.1, y: 3 },
+            speed: 9000
+        });
+
+        assert.deepStrictEqual(move, { position: { x: 1, y: 1.7, z: -2 }, rotation: { x: 0.1, y: 3 } });
+    });
+
+    test('refuses malformed payloads', () => {
+        const cases = [
+            ['player_move', { position: { x: 1, y: NaN, z: 0 }, rotation: { x: 0, y: 0 } }],
+            ['player_move', { position: { x: 1, y: 1, z: 0 } }],
+            ['collect_penny', { pennyId: '' }],
+            ['collect_penny', { pennyId: 'x'.repeat(65) }],
+            ['collect_penny', ['penny_1']],
+            ['request_wallet_challenge', null],
+            ['voice_mute_toggle', { muted: 'yes' }],
+            ['voice_offer', { targetId: 'peer', offer: { type: 'offer', sdp: 'x'.repeat(20001) } }],
+            ['no_such_event', {}]
+        ];
+        for (const [event, data] of cases) {
+            assert.strictEqual(validatePayload(event, data), null, `${event} ${JSON.stringify(data)}`);
+        }
+    });
+
+    test('join_lobby defaults to the free lobby and needs the deposit for a buy-in', () => {
+        assert.deepStrictEqual(validatePayload('join_lobby', { walletAddress: ' wallet ' }), {
+            walletAddress: 'wallet',
+            signature: undefined,
+            lobbyType: 'free'
+        });
+        assert.strictEqual(validatePayload('join_lobby', { walletAddress: 'wallet', lobbyType: 'buyin' }), null);
+        assert.strictEqual(validatePayload('join_lobby', { walletAddress: 'wallet', lobbyType: 'vip' }), null);
+        assert.strictEqual(validatePayload('join_lobby', {
+            walletAddress: 'wallet',
+            lobbyType: 'buyin',
+            escrowAddress: 'escrow',
+            depositSignature: 'sig'
+        }).depositSignature, 'sig');
+    });
+
+    test('join_spectator works with or without a room', () => {
+        assert.deepStrictEqual(validatePayload('join_spectator', undefined), {});
+        assert.deepStrictEqual(validatePayload('join_spectator', { roomId: 'room_1' }), { roomId: 'room_1' });
+        assert.strictEqual(validatePayload('join_spectator', { roomId: 42 }), null);
+    });
+});
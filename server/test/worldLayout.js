@@ -0,0 +1,105 @@
+// Map validation, the seeded town layout and the walkable area built from it.
+
+const { describe, test } = require('node:test');
+const assert = require('node:assert');
+const { validateMap, generateLayout, layoutColliders, WalkableArea, createRandom } = require('../worldLayout.mjs');
+const { loadMap } = require('../mapLoader');
+
+const smallMap = (overrides = {}) => ({
+    name: 'Test',
+    size: 100,
+    bounds: 45,
+    spawnZones: [{ shape: 'ring', x: 0, z: 0, minRadius: 5, maxRadius: 10 }],
+    coinZones: [{ shape: 'rect', x: 0, z: 0, width: 80, depth: 80 }],
+    prefabs: [
+        { type: 'house', x: 20, z: 20 },
+        { type: 'house', x: -20, z: 20, rotation: 90, width: 10, height: 6, depth: 8 },
+        { type: 'palm', x: 0, z: -20 },
+        { type: 'fountain', x: 0, z: 0, scale: 1 },
+        { type: 'bench', x: 5, z: -5 }
+    ],
+    ...overrides
+});
+
+describe('validateMap', () => {
+    test('accepts the bundled map', () => {
+        assert.strictEqual(loadMap('old-city').name, 'Old City');
+    });
+
+    test('rejects malformed maps', () => {
+        const broken = [
+            { name: undefined },
+            { bounds: 60 }, // Outside size / 2
+            { spawnZones: [] },
+            { coinZones: [{ shape: 'circle', x: 0, z: 0 }] },
+            { spawnZones: [{ shape: 'ring', x: 0, z: 0, minRadius: 10, maxRadius: 5 }] },
+            { prefabs: [{ type: 'castle', x: 0, z: 0 }] },
+            { prefabs: [{ type: 'house', x: 0 }] },
+            { prefabs: [{ type: 'palm', x: 0, z: 0, scale: 'big' }] }
+        ];
+        for (const overrides of broken) {
+            assert.throws(() => validateMap(smallMap(overrides)), Error, JSON.stringify(overrides));
+        }
+    });
+});
+
+describe('generateLayout', () => {
+    test('the same map and seed always build the same town', () => {
+        assert.deepStrictEqual(generateLayout(smallMap(), 1234), generateLayout(smallMap(), 1234));
+        assert.notDeepStrictEqual(generateLayout(smallMap(), 1234).houses, generateLayout(smallMap(), 4321).houses);
+    });
+
+    test('sizes the map sets are kept, the rest comes from the seed', () => {
+        const layout = generateLayout(smallMap(), 99);
+        const [seeded, fixed] = layout.houses;
+
+        assert.deepStrictEqual([fixed.width, fixed.height, fixed.depth], [10, 6, 8]);
+        assert.strictEqual(fixed.rotation, Math.PI / 2);
+        assert.ok(seeded.width >= 8 && seeded.width < 10);
+        assert.strictEqual(layout.props.find(p => p.type === 'fountain').scale, 1);
+    });
+
+    test('every house gets a door in front of it', () => {
+        const layout = generateLayout(smallMap(), 7);
+
+        assert.deepStrictEqual(layout.doors.map(d => d.id), ['door_0', 'door_1']);
+        const [door] = layout.doors;
+        assert.strictEqual(door.x, layout.houses[0].x);
+        assert.ok(door.z > layout.houses[0].z + layout.houses[0].depth / 2);
+    });
+
+    test('walk-through props have no collider', () => {
+        const colliders = layoutColliders(generateLayout(smallMap(), 7));
+
+        assert.strictEqual(colliders.length, 4); // Two houses, the palm and the fountain
+    });
+});
+
+describe('WalkableArea', () => {
+    const area = new WalkableArea(generateLayout(smallMap(), 5));
+
+    test('buildings, props and the map edge block movement', () => {
+        assert.ok(area.isBlocked(20, 20)); // Inside a house
+        assert.ok(area.isBlocked(0, 3)); // In the fountain
+        assert.ok(area.isBlocked(0, -20, 0.4)); // Against the palm
+        assert.ok(area.isBlocked(46, 0)); // Past the bounds
+        assert.ok(!area.isBlocked(5, -5, 0.4)); // On the bench
+        assert.ok(!area.isBlocked(30, -30, 0.4));
+    });
+
+    test('random positions are free and inside their zone', () => {
+        const random = createRandom(42);
+        for (let i = 0; i < 50; i++) {
+            const spot = area.randomPosition(smallMap().spawnZones, { radius: 0.4, random });
+            const distance = Math.hypot(spot.x, spot.z);
+            assert.ok(distance >= 5 && distance <= 10);
+            assert.ok(!area.isBlocked(spot.x, spot.z, 0.4));
+        }
+    });
+
+    test('gives up when nothing is free', () => {
+        const zones = [{ shape: 'rect', x: 20, z: 20, width: 1, depth: 1 }];
+
+        assert.strictEqual(area.randomPosition(zones, { attempts: 5 }), null);
+    });
+});
@@ -0,0 +1,122 @@
+// Runtime validation of inbound socket payloads.
+// Mirrors ClientToServerEvents in shared/protocol.ts - each validator returns a
+// sanitized copy of the payload, or null if it is malformed.
+
+const MAX_ID_LENGTH = 64;
+const MAX_SDP_LENGTH = 20000;
+const MAX_SIGNATURE_LENGTH = 128; // base64 ed25519 signature is 88 chars, base58 tx signature up to 88
+
+const isObject = (value) => value !== null && typeof value === 'object' && !Array.isArray(value);
+const isFiniteNumber = (value) => typeof value === 'number' && Number.isFinite(value);
+const isShortString = (value, maxLength = MAX_ID_LENGTH) =>
+    typeof value === 'string' && value.length > 0 && value.length <= maxLength;
+
+const isVec3 = (value) =>
+    isObject(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y) && isFiniteNumber(value.z);
+
+const isSessionDescription = (value) =>
+    isObject(value) && isShortString(value.type, 16) && typeof value.sdp === 'string' && value.sdp.length <= MAX_SDP_LENGTH;
+
+const noPayload = () => ({});
+
+const validators = {
+    request_wallet_challenge(data) {
+        if (!isObject(data) || !isShortString(data.walletAddress)) return null;
+        return { walletAddress: data.walletAddress.trim() };
+    },
+
+    join_lobby(data) {
+        if (!isObject(data) || !isShortString(data.walletAddress)) return null;
+        if (data.signature !== undefined && !isShortString(data.signature, MAX_SIGNATURE_LENGTH)) return null;
+        const payload = { walletAddress: data.walletAddress.trim(), signature: data.signature, lobbyType: 'free' };
+
+        // Buy-in lobbies name the escrow that was paid and the entry fee transaction
+        if (data.lobbyType === 'buyin') {
+            if (!isShortString(data.escrowAddress) || !isShortString(data.depositSignature, MAX_SIGNATURE_LENGTH)) return null;
+            return { ...payload, lobbyType: 'buyin', escrowAddress: data.escrowAddress, depositSignature: data.depositSignature };
+        }
+        if (data.lobbyType !== undefined && data.lobbyType !== 'free') return null;
+        return payload;
+    },
+
+    resume_session(data) {
+        if (!isObject(data) || !isShortString(data.resumeToken)) return null;
+        return { resumeToken: data.resumeToken };
+    },
+
+    join_spectator(data) {
+        // Room is optional - without one the server picks a running match
+        if (data === undefined || data === null) return {};
+        if (!isObject(data)) return null;
+        if (data.roomId === undefined) return {};
+        if (!isShortString(data.roomId)) return null;
+        return { roomId: data.roomId };
+    },
+
+    player_move(data) {
+        if (!isObject(data) || !isVec3(data.position) || !isObject(data.rotation)) return null;
+        const { position, rotation } = data;
+        if (!isFiniteNumber(rotation.x) || !isFiniteNumber(rotation.y)) return null;
+        return {
+            position: { x: position.x, y: position.y, z: position.z },
+            rotation: { x: rotation.x, y: rotation.y }
+        };
+    },
+
+    collect_penny(data) {
+        if (!isObject(data) || !isShortString(data.pennyId)) return null;
+        return { pennyId: data.pennyId };
+    },
+
+    collect_power_up(data) {
+        if (!isObject(data) || !isShortString(data.powerUpId)) return null;
+        return { powerUpId: data.powerUpId };
+    },
+
+    door_toggle(data) {
+        if (!isObject(data) || !isShortString(data.doorId)) return null;
+        return { doorId: data.doorId };
+    },
+
+    voice_join: noPayload,
+
+    voice_leave: noPayload,
+
+    voice_offer(data) {
+        if (!isObject(data) || !isShortString(data.targetId) || !isSessionDescription(data.offer)) return null;
+        return { targetId: data.targetId, offer: { type: data.offer.type, sdp: data.offer.sdp } };
+    },
+
+    voice_answer(data) {
+        if (!isObject(data) || !isShortString(data.targetId) || !isSessionDescription(data.answer)) return null;
+        return { targetId: data.targetId, answer: { type: data.answer.type, sdp: data.answer.sdp } };
+    },
+
+    voice_ice_candidate(data) {
+        if (!isObject(data) || !isShortString(data.targetId) || !isObject(data.candidate)) return null;
+        const { candidate, sdpMid, sdpMLineIndex, usernameFragment } = data.candidate;
+        if (typeof candidate !== 'string' || candidate.length > MAX_SDP_LENGTH) return null;
+        return {
+            targetId: data.targetId,
+            candidate: {
+                candidate,
+                sdpMid: typeof sdpMid === 'string' ? sdpMid : null,
+                sdpMLineIndex: Number.isInteger(sdpMLineIndex) ? sdpMLineIndex : null,
+                usernameFragment: typeof usernameFragment === 'string' ? usernameFragment : null
+            }
+        };
+    },
+
+    voice_mute_toggle(data) {
+        if (!isObject(data) || typeof data.muted !== 'boolean') return null;
+        return { muted: data.muted };
+    }
+};
+
+// Validate a payload for a client -> server event
+function validatePayload(event, data) {
+    const validator = validators[event];
+    return validator ? validator(data) : null;
+}
+
+module.exports = { validatePayload };
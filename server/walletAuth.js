@@ -0,0 +1,89 @@
+const crypto = require('crypto');
+const { PublicKey } = require('@solana/web3.js');
+
+// Wallet ownership proof. The server hands out a one-time nonce, the client signs
+// the challenge message with its wallet (signMessage) and we check the ed25519
+// signature against the claimed address before letting it into a lobby.
+class WalletAuth {
+    constructor() {
+        // 'signed' requires a signature, 'unverified' accepts typed addresses (local testing / simulated rewards)
+        this.mode = process.env.WALLET_AUTH_MODE === 'unverified' ? 'unverified' : 'signed';
+        this.challengeTtlSeconds = parseInt(process.env.WALLET_CHALLENGE_TTL_SECONDS) || 120;
+
+        this.challenges = new Map(); // socketId -> { walletAddress, message, expiresAt }
+
+        if (this.mode === 'unverified') {
+            console.log('⚠️ Wallet signatures disabled - players can join with any typed address');
+        }
+    }
+
+    isRequired() {
+        return this.mode === 'signed';
+    }
+
+    // Issue a fresh challenge for a socket (replaces any earlier one)
+    createChallenge(socketId, walletAddress) {
+        const nonce = crypto.randomBytes(16).toString('hex');
+        const expiresAt = Date.now() + this.challengeTtlSeconds * 1000;
+        const message = [
+            'CoinSniffer wants you to prove you own this wallet.',
+            'Signing is free and does not send a transaction.',
+            '',
+            `Wallet: ${walletAddress}`,
+            `Nonce: ${nonce}`,
+            `Issued: ${new Date().toISOString()}`
+        ].join('\n');
+
+        this.challenges.set(socketId, { walletAddress, message, expiresAt });
+        return { walletAddress, message, expiresAt };
+    }
+
+    // Check a base64 signature against the socket's outstanding challenge.
+    // Challenges are single use - a failed attempt needs a new one.
+    verify(socketId, walletAddress, signature) {
+        const challenge = this.challenges.get(socketId);
+        this.challenges.delete(socketId);
+
+        if (!challenge) {
+            return { success: false, reason: 'No wallet challenge issued - please try again' };
+        }
+        if (Date.now() > challenge.expiresAt) {
+            return { success: false, reason: 'Wallet challenge expired - please try again' };
+        }
+        if (challenge.walletAddress !== walletAddress) {
+            return { success: false, reason: 'Signed wallet does not match' };
+        }
+        if (!signature) {
+            return { success: false, reason: 'Wallet signature required' };
+        }
+
+        if (!this.verifySignature(walletAddress, challenge.message, signature)) {
+            return { success: false, reason: 'Invalid wallet signature' };
+        }
+        return { success: true };
+    }
+
+    // ed25519 check using the raw 32-byte Solana public key
+    verifySignature(walletAddress, message, signature) {
+        try {
+            const publicKeyBytes = new PublicKey(walletAddress).toBytes();
+            const signatureBytes = Buffer.from(signature, 'base64');
+            if (signatureBytes.length !== 64) return false;
+
+            const key = crypto.createPublicKey({
+                key: { kty: 'OKP', crv: 'Ed25519', x: Buffer.from(publicKeyBytes).toString('base64url') },
+                format: 'jwk'
+            });
+            return crypto.verify(null, Buffer.from(message, 'utf8'), key, signatureBytes);
+        } catch (error) {
+            console.warn('Wallet signature check failed:', error.message);
+            return false;
+        }
+    }
+
+    clear(socketId) {
+        this.challenges.delete(socketId);
+    }
+}
+
+module.exports = WalletAuth;
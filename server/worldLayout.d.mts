@@ -0,0 +1,106 @@
+// Types for worldLayout.mjs, for the client
+export interface BoxCollider {
+    kind: 'box'; // Axis-aligned
+    x: number;
+    z: number;
+    halfWidth: number; // Along x
+    halfDepth: number; // Along z
+}
+
+export interface CircleCollider {
+    kind: 'circle';
+    x: number;
+    z: number;
+    radius: number;
+}
+
+export interface OrientedBoxCollider {
+    kind: 'orientedBox';
+    x: number;
+    z: number;
+    halfWidth: number; // Along the box's own x axis
+    halfDepth: number; // Along the box's own z axis
+    rotation: number; // Yaw, as in Object3D.rotation.y
+}
+
+export type Collider = BoxCollider | CircleCollider | OrientedBoxCollider;
+
+export interface LayoutPoint {
+    x: number;
+    z: number;
+}
+
+export type PrefabType =
+    | 'house' | 'synagogue' | 'westernWall' | 'fountain' | 'stall' | 'trashCan'
+    | 'bench' | 'pot' | 'lamp' | 'palm' | 'olive' | 'camel' | 'flag';
+
+export const PREFAB_TYPES: PrefabType[];
+
+// A prefab as written in a map file
+export interface MapPrefab extends LayoutPoint {
+    type: PrefabType;
+    rotation?: number; // Degrees (yaw), default 0
+    scale?: number; // Default 1 - palms and olives get a seeded one
+    width?: number; // Houses only, seeded if left out
+    height?: number;
+    depth?: number;
+}
+
+export type MapZone =
+    | (LayoutPoint & { shape: 'rect'; width: number; depth: number })
+    | (LayoutPoint & { shape: 'ring'; minRadius: number; maxRadius: number });
+
+// A map file (server/maps/*.json)
+export interface GameMap {
+    name: string;
+    size: number; // Ground is size x size, centred on the origin
+    bounds: number; // Players stay within +-bounds on x and z
+    spawnZones: MapZone[];
+    coinZones: MapZone[]; // Coins and power-ups
+    prefabs: MapPrefab[];
+}
+
+export interface LayoutProp extends LayoutPoint {
+    type: Exclude<PrefabType, 'house'>;
+    rotation: number; // Radians
+    scale: number;
+}
+
+export interface LayoutHouse extends LayoutPoint {
+    type: 'house';
+    rotation: number;
+    width: number;
+    height: number;
+    depth: number;
+}
+
+export interface LayoutDoor extends LayoutPoint {
+    id: string;
+}
+
+export interface WorldLayout {
+    seed: number;
+    map: GameMap;
+    houses: LayoutHouse[];
+    props: LayoutProp[];
+    doors: LayoutDoor[];
+}
+
+export function createRandom(seed: number): () => number;
+export function validateMap(map: GameMap): GameMap;
+export function generateLayout(map: GameMap, seed: number): WorldLayout;
+export function layoutColliders(layout: WorldLayout): Collider[];
+export function colliderBounds(collider: Collider): { halfWidth: number; halfDepth: number };
+export function overlapsCollider(collider: Collider, x: number, z: number, radius: number): boolean;
+
+export class WalkableArea {
+    constructor(layout: WorldLayout);
+    readonly bounds: number;
+    readonly colliders: Collider[];
+    isBlocked(x: number, z: number, radius?: number): boolean;
+    randomPosition(zones: MapZone[], options?: {
+        radius?: number;
+        attempts?: number;
+        random?: () => number;
+    }): LayoutPoint | null;
+}
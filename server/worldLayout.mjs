@@ -0,0 +1,246 @@
+// The town every match is played in. A map (JSON, see maps/) lists the bounds, where
+// players spawn, where coins drop and every prefab with its transform; a seed varies the
+// details (house sizes, tree sizes). The server loads the map, picks the seed and sends
+// both in game_start, and World builds the exact same layout on every client from them -
+// while the server uses the colliders to keep coins, power-ups and spawn points in
+// walkable space and to validate moves.
+//
+// Only what affects gameplay lives here (where things stand, how big the solid parts are);
+// purely decorative randomness stays in World. Shared the same way as spatialGrid.mjs,
+// types are in worldLayout.d.mts.
+import { SpatialGrid } from './spatialGrid.mjs';
+
+// Everything a map can place. Prefabs without a collider can be walked through.
+export const PREFAB_TYPES = [
+    'house', 'synagogue', 'westernWall', 'fountain', 'stall', 'trashCan',
+    'bench', 'pot', 'lamp', 'palm', 'olive', 'camel', 'flag'
+];
+
+// mulberry32 - small, fast and plenty random for a town. Returns floats in [0, 1).
+export function createRandom(seed) {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+const isNumber = value => typeof value === 'number' && Number.isFinite(value);
+
+function checkZone(zone, where) {
+    if (!zone || !isNumber(zone.x) || !isNumber(zone.z)) {
+        throw new Error(`${where} needs a numeric x and z`);
+    }
+    if (zone.shape === 'rect') {
+        if (!(zone.width > 0) || !(zone.depth > 0)) throw new Error(`${where} needs a positive width and depth`);
+    } else if (zone.shape === 'ring') {
+        if (!(zone.minRadius >= 0) || !(zone.maxRadius >= zone.minRadius)) {
+            throw new Error(`${where} needs 0 <= minRadius <= maxRadius`);
+        }
+    } else {
+        throw new Error(`${where} has unknown shape "${zone.shape}"`);
+    }
+}
+
+// Throws if the map is malformed - a typo in a map file should stop the server, not
+// build a different town on every client
+export function validateMap(map) {
+    if (!map || typeof map.name !== 'string') throw new Error('Map needs a name');
+    if (!(map.size > 0) || !(map.bounds > 0) || map.bounds > map.size / 2) {
+        throw new Error(`Map "${map.name}" needs a positive size and bounds within it`);
+    }
+    for (const key of ['spawnZones', 'coinZones']) {
+        if (!Array.isArray(map[key]) || map[key].length === 0) {
+            throw new Error(`Map "${map.name}" needs at least one of ${key}`);
+        }
+        map[key].forEach((zone, index) => checkZone(zone, `Map "${map.name}" ${key}[${index}]`));
+    }
+    if (!Array.isArray(map.prefabs)) throw new Error(`Map "${map.name}" needs a prefabs list`);
+    map.prefabs.forEach((prefab, index) => {
+        const where = `Map "${map.name}" prefabs[${index}]`;
+        if (!PREFAB_TYPES.includes(prefab && prefab.type)) throw new Error(`${where} has unknown type "${prefab && prefab.type}"`);
+        if (!isNumber(prefab.x) || !isNumber(prefab.z)) throw new Error(`${where} needs a numeric x and z`);
+        for (const key of ['rotation', 'scale', 'width', 'height', 'depth']) {
+            if (prefab[key] !== undefined && !isNumber(prefab[key])) throw new Error(`${where} has a non-numeric ${key}`);
+        }
+    });
+    return map;
+}
+
+// Where every prefab stands and the seeded sizes of what the map leaves open.
+// Rotations in the map are degrees (easier to write by hand), in the layout radians.
+export function generateLayout(map, seed) {
+    const random = createRandom(seed);
+    const houses = [];
+    const props = [];
+
+    for (const prefab of map.prefabs) {
+        const placed = {
+            type: prefab.type,
+            x: prefab.x,
+            z: prefab.z,
+            rotation: (prefab.rotation ?? 0) * Math.PI / 180
+        };
+        switch (prefab.type) {
+            case 'house':
+                houses.push({
+                    ...placed,
+                    width: prefab.width ?? 8 + random() * 2,
+                    height: prefab.height ?? 5 + random() * 3,
+                    depth: prefab.depth ?? 6 + random() * 2
+                });
+                break;
+            case 'palm':
+                props.push({ ...placed, scale: prefab.scale ?? 0.9 + random() * 0.3 });
+                break;
+            case 'olive':
+                props.push({ ...placed, scale: prefab.scale ?? 0.8 + random() * 0.4 });
+                break;
+            default:
+                props.push({ ...placed, scale: prefab.scale ?? 1 });
+        }
+    }
+
+    return {
+        seed,
+        map,
+        houses,
+        props,
+        // Each house has a door in the middle of its front (+z before rotation) wall - ids follow the house order
+        doors: houses.map((house, index) => {
+            const offset = house.depth / 2 + 0.15;
+            return {
+                id: `door_${index}`,
+                x: house.x + offset * Math.sin(house.rotation),
+                z: house.z + offset * Math.cos(house.rotation)
+            };
+        })
+    };
+}
+
+// Footprint of something rectangular - oriented only if it's actually turned
+function rectCollider(prefab, halfWidth, halfDepth) {
+    const { x, z, rotation } = prefab;
+    if (rotation === 0) return { kind: 'box', x, z, halfWidth, halfDepth };
+    return { kind: 'orientedBox', x, z, halfWidth, halfDepth, rotation };
+}
+
+function circleCollider(prefab, radius) {
+    return { kind: 'circle', x: prefab.x, z: prefab.z, radius };
+}
+
+// Solid footprint of each prop type, seen from above (null = walk-through)
+const PROP_COLLIDERS = {
+    synagogue: p => rectCollider(p, 7.5 * p.scale, 6 * p.scale),
+    westernWall: p => rectCollider(p, 15 * p.scale, 1 * p.scale),
+    fountain: p => circleCollider(p, 3.5 * p.scale),
+    stall: p => rectCollider(p, 1.6 * p.scale, 1.1 * p.scale),
+    trashCan: p => circleCollider(p, 0.45 * p.scale),
+    lamp: p => circleCollider(p, 0.2 * p.scale),
+    palm: p => circleCollider(p, 0.3 * p.scale),
+    olive: p => circleCollider(p, 0.5), // Scale only makes the tree taller
+    camel: p => rectCollider(p, 1.8 * p.scale, 0.8 * p.scale),
+    bench: () => null,
+    pot: () => null,
+    flag: () => null
+};
+
+// What blocks movement, seen from above (see src/collision.ts)
+export function layoutColliders(layout) {
+    return [
+        ...layout.houses.map(h => rectCollider(h, h.width / 2, h.depth / 2)),
+        ...layout.props.map(p => PROP_COLLIDERS[p.type](p)).filter(Boolean)
+    ];
+}
+
+// Half extents of a collider's axis-aligned bounding box
+export function colliderBounds(collider) {
+    switch (collider.kind) {
+        case 'circle':
+            return { halfWidth: collider.radius, halfDepth: collider.radius };
+        case 'box':
+            return { halfWidth: collider.halfWidth, halfDepth: collider.halfDepth };
+        case 'orientedBox': {
+            const cos = Math.abs(Math.cos(collider.rotation));
+            const sin = Math.abs(Math.sin(collider.rotation));
+            return {
+                halfWidth: collider.halfWidth * cos + collider.halfDepth * sin,
+                halfDepth: collider.halfWidth * sin + collider.halfDepth * cos
+            };
+        }
+    }
+}
+
+// Does a circle at (x, z) overlap the collider?
+export function overlapsCollider(collider, x, z, radius) {
+    let dx = x - collider.x;
+    let dz = z - collider.z;
+
+    if (collider.kind === 'circle') {
+        const minDistance = collider.radius + radius;
+        return dx * dx + dz * dz < minDistance * minDistance;
+    }
+    if (collider.kind === 'orientedBox') {
+        // Into the box's frame (same convention as a Three.js yaw)
+        const cos = Math.cos(collider.rotation);
+        const sin = Math.sin(collider.rotation);
+        [dx, dz] = [dx * cos - dz * sin, dx * sin + dz * cos];
+    }
+    const outsideX = Math.max(Math.abs(dx) - collider.halfWidth, 0);
+    const outsideZ = Math.max(Math.abs(dz) - collider.halfDepth, 0);
+    return outsideX * outsideX + outsideZ * outsideZ < radius * radius
+        || (outsideX === 0 && outsideZ === 0);
+}
+
+const zoneArea = zone => zone.shape === 'rect'
+    ? zone.width * zone.depth
+    : Math.PI * (zone.maxRadius ** 2 - zone.minRadius ** 2);
+
+// Uniformly random point in a rect or ring zone
+function pointInZone(zone, random) {
+    if (zone.shape === 'rect') {
+        return {
+            x: zone.x + (random() - 0.5) * zone.width,
+            z: zone.z + (random() - 0.5) * zone.depth
+        };
+    }
+    const angle = random() * Math.PI * 2;
+    const radius = Math.sqrt(zone.minRadius ** 2 + random() * (zone.maxRadius ** 2 - zone.minRadius ** 2));
+    return { x: zone.x + Math.cos(angle) * radius, z: zone.z + Math.sin(angle) * radius };
+}
+
+// Where a player (or a coin) can be. Built once per match from the layout.
+export class WalkableArea {
+    constructor(layout) {
+        this.bounds = layout.map.bounds;
+        this.colliders = layoutColliders(layout);
+        this.grid = new SpatialGrid({ size: layout.map.size });
+        this.colliders.forEach((collider, index) => {
+            const { halfWidth, halfDepth } = colliderBounds(collider);
+            this.grid.insert(index, collider.x, collider.z, halfWidth, halfDepth);
+        });
+    }
+
+    isBlocked(x, z, radius = 0) {
+        return Math.abs(x) > this.bounds || Math.abs(z) > this.bounds
+            || this.grid.queryRadius(x, z, radius)
+                .some(index => overlapsCollider(this.colliders[index], x, z, radius));
+    }
+
+    // Random free spot with `radius` of clearance in one of the zones (a map's spawnZones
+    // or coinZones), bigger zones picked more often. Null if nothing free turned up
+    // after `attempts` tries.
+    randomPosition(zones, { radius = 0, attempts = 30, random = Math.random } = {}) {
+        const total = zones.reduce((sum, zone) => sum + zoneArea(zone), 0);
+        for (let i = 0; i < attempts; i++) {
+            let pick = random() * total;
+            const zone = zones.find(z => (pick -= zoneArea(z)) < 0) ?? zones[zones.length - 1];
+            const { x, z } = pointInZone(zone, random);
+            if (!this.isBlocked(x, z, radius)) return { x, z };
+        }
+        return null;
+    }
+}
@@ -0,0 +1,511 @@
+// Socket.IO protocol shared by the client (src/) and the server (server/).
+// The server is plain JS, so inbound payloads are checked at runtime by
+// server/validation.js - keep both files in sync when changing an event.
+
+import type { GameMap } from '../server/worldLayout.mjs';
+
+// ============ COMMON TYPES ============
+
+export interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface Rotation {
+  x: number; // Pitch
+  y: number; // Yaw
+}
+
+export type GamePhase = 'lobby' | 'playing' | 'results';
+
+// Server-defined coin tiers, each worth a different value (see server/coinTiers.js)
+export type CoinTier = 'bronze' | 'silver' | 'gold' | 'jackpot';
+
+export interface PennyInfo {
+  id: string;
+  position: Vec3;
+  tier: CoinTier;
+  value: number; // Points added to the collector's score
+}
+
+// Server-spawned pickups with a timed effect (see server/powerUps.js)
+export type PowerUpType = 'magnet' | 'speed' | 'double_value' | 'radar';
+
+export interface PowerUpInfo {
+  id: string;
+  type: PowerUpType;
+  position: Vec3;
+}
+
+// A running power-up effect. Picking up the same type again restarts it.
+export interface ActiveEffect {
+  playerId: string;
+  type: PowerUpType;
+  expiresAt: number; // Server timestamp (ms)
+  strength: number; // Multiplier, or radius in meters for radar
+}
+
+// House doors, shared by everyone in the match. Ids follow World.doors.
+export interface DoorState {
+  id: string;
+  open: boolean;
+}
+
+// ============ LOBBY ============
+
+export interface LobbyPlayer {
+  id: string;
+  wallet: string; // Shortened for display
+}
+
+// Free lobbies pay out of the operator's reward pool, buy-in lobbies play for the entry fees
+export type LobbyType = 'free' | 'buyin';
+
+export interface BuyInInfo {
+  escrowAddress: string; // Pay the entry fee here, then join with the transaction signature
+  lamports: number; // Entry fee
+  houseCutPercent: number; // Kept by the operator, the rest is the prize pool
+  potLamports: number; // Entry fees paid so far
+}
+
+export interface LobbyState {
+  roomId: string;
+  players: LobbyPlayer[];
+  playerCount: number;
+  maxPlayers: number;
+  timeRemaining: number;
+  gamePhase: GamePhase;
+  lobbyType: LobbyType;
+  minPlayers: number;
+  buyIn: BuyInInfo | null;
+  rewards: LobbyRewardInfo;
+}
+
+// simulated = no reward wallet on the server, nothing is actually sent
+export type PayoutMode = 'live' | 'simulated';
+
+export interface RewardSplitInfo {
+  strategy: RewardStrategyName;
+  description: string; // e.g. "proportional among top 3"
+  places: number; // Most places that can be paid
+  minScore: number; // Coins needed to qualify
+}
+
+// Winners of a finished match as recorded in the payout ledger
+export interface RecentMatchPayouts {
+  matchId: string;
+  finishedAt: number; // ms since epoch
+  winners: RewardResult[];
+}
+
+// Everything the lobby screen shows about the prize
+export interface LobbyRewardInfo {
+  pools: RewardAmount[]; // This match's prize pool (the buy-in pot after the house cut)
+  split: RewardSplitInfo;
+  payoutMode: PayoutMode;
+  cluster: string;
+  rewardWalletBalance: number | null; // SOL, null when simulated or not read yet
+  recentPayouts: RecentMatchPayouts[]; // Newest first
+}
+
+// Message to sign with the wallet before join_lobby (required: false in unverified mode)
+export type WalletChallengePayload =
+  | { required: true; walletAddress: string; message: string; expiresAt: number }
+  | { required: false; walletAddress: string };
+
+// Why the server's admission rules turned a wallet away
+export type AdmissionRefusalCode = 'denylisted' | 'not_allowlisted' | 'token_gated' | 'gate_unavailable';
+
+export interface AdmissionRefusal {
+  code: AdmissionRefusalCode;
+  reason: string;
+}
+
+export type LobbyJoinedPayload =
+  | { success: true; playerId: string; roomId: string; resumeToken: string; lobbyState: LobbyState }
+  | {
+      success: false;
+      reason: string;
+      refusal?: AdmissionRefusal; // Set when the wallet itself isn't admitted
+      depositResolved?: boolean; // Buy-in: the entry fee was refunded or is unusable
+    };
+
+export interface TimerPayload {
+  remaining: number;
+  total: number;
+}
+
+// Several lobbies can count down at once - roomId says which one
+export interface LobbyTimerPayload extends TimerPayload {
+  roomId: string;
+}
+
+// A buy-in lobby ran out of time without enough players
+export interface LobbyCancelledPayload {
+  roomId: string;
+  reason: string;
+  refunded: boolean; // Entry fees are on their way back
+}
+
+export interface LobbyMessagePayload {
+  message: string;
+}
+
+// ============ MATCH ============
+
+export interface GameStartPlayer {
+  id: string;
+  walletAddress: string;
+  position: Vec3;
+}
+
+export interface GameStartPayload {
+  players: GameStartPlayer[];
+  pennies: PennyInfo[];
+  doors: DoorState[];
+  map: GameMap; // The town - World.load builds it from the map and seed
+  seed: number; // See server/worldLayout.mjs
+  duration: number;
+}
+
+export interface GameStatePlayer {
+  id: string;
+  walletAddress: string;
+  position: Vec3;
+  score: number;
+}
+
+// Current match state - doubles as the join-in-progress snapshot for spectators
+export interface GameState {
+  roomId: string;
+  phase: GamePhase;
+  players: GameStatePlayer[];
+  pennies: PennyInfo[]; // Uncollected only
+  penniesRemaining: number;
+  powerUps: PowerUpInfo[];
+  effects: ActiveEffect[];
+  doors: DoorState[];
+  map: GameMap;
+  seed: number;
+  scores: ScoreEntry[];
+  timeRemaining: number;
+  duration: number;
+  seq: number; // Last world snapshot sequence number
+}
+
+export type SpectatorJoinedPayload =
+  | { success: true; gameState: GameState }
+  | { success: false; reason: string };
+
+export interface SnapshotPlayer {
+  id: string;
+  x: number;
+  y: number;
+  z: number;
+  rx: number;
+  ry: number;
+}
+
+export interface CollectedPenny {
+  pennyId: string;
+  playerId: string;
+  playerScore: number; // Total value collected so far
+  value: number; // Value of this coin, after any double-value effect
+}
+
+export interface PowerUpPickup extends ActiveEffect {
+  powerUpId: string;
+}
+
+export interface ScoreEntry {
+  id: string;
+  wallet: string; // Shortened for display
+  score: number;
+}
+
+// Batched state sent by the server every simulation tick
+export interface WorldSnapshot {
+  seq: number;
+  t: number; // Server timestamp (ms)
+  players: SnapshotPlayer[];
+  collected: CollectedPenny[];
+  spawned: PennyInfo[];
+  scores?: ScoreEntry[];
+  powerUpsSpawned?: PowerUpInfo[];
+  powerUpsCollected?: PowerUpPickup[];
+  doors?: DoorState[]; // Doors toggled since the last snapshot
+}
+
+// Sent only to the player who picked up a radar
+export interface RadarPulsePayload {
+  pennyIds: string[]; // Coins within range at pickup time
+  radius: number;
+  expiresAt: number; // Server timestamp (ms)
+}
+
+export type MoveCorrectionReason = 'speed' | 'bounds' | 'collision';
+
+export interface PositionCorrectionPayload {
+  position: Vec3;
+  reason: MoveCorrectionReason;
+}
+
+export type CollectRejectReason = 'not_playing' | 'unknown_penny' | 'already_collected' | 'out_of_range';
+
+export interface CollectRejectedPayload {
+  pennyId: string;
+  reason: CollectRejectReason;
+}
+
+export interface PlayerLeftPayload {
+  playerId: string;
+}
+
+// Full match state sent to a player re-attaching after a dropped connection
+export interface ResumeState {
+  playerId: string; // New socket id
+  position: Vec3;
+  score: number;
+  players: GameStartPlayer[];
+  pennies: PennyInfo[];
+  powerUps: PowerUpInfo[];
+  effects: ActiveEffect[];
+  doors: DoorState[];
+  scores: ScoreEntry[];
+  timeRemaining: number;
+  duration: number;
+  seq: number; // Last world snapshot sequence number
+}
+
+export type SessionResumedPayload =
+  | { success: true; state: ResumeState }
+  | { success: false; reason: string };
+
+export interface PlayerResumedPayload {
+  previousId: string;
+  player: GameStartPlayer;
+}
+
+// ============ RESULTS ============
+
+export interface RankingEntry {
+  id: string;
+  walletAddress: string;
+  score: number; // Total value of collected coins - what rankings and rewards use
+  coins: number; // Number of coins collected
+  rejectedClaims: number;
+  flagged: boolean;
+}
+
+// Reward split strategy configured on the server (REWARD_STRATEGY)
+export type RewardStrategyName = 'proportional' | 'fixed' | 'winner_take_all' | 'decay';
+
+// Something a match pays out in - SOL (mint null) or an SPL token
+export interface RewardAsset {
+  symbol: string;
+  decimals: number;
+  mint: string | null;
+}
+
+// An exact amount of an asset in base units (lamports for SOL), as a string
+// because token amounts can exceed Number.MAX_SAFE_INTEGER
+export interface RewardAmount extends RewardAsset {
+  units: string;
+}
+
+// A paid place, with the exact amounts the server will transfer
+export interface WinnerEntry extends RankingEntry {
+  place: number;
+  rewards: RewardAmount[]; // One per reward asset of the match
+  rewardPercent: number; // Share of each pool, for display only
+}
+
+export interface FlaggedPlayer {
+  id: string;
+  walletAddress: string;
+  rejectedClaims: number;
+}
+
+export interface GameEndPayload {
+  rankings: RankingEntry[];
+  winners: WinnerEntry[];
+  rewardStrategy: RewardStrategyName;
+  rewardPools: RewardAmount[]; // Split between the winners
+  houseLamports: number; // Buy-in house cut, 0 for free matches
+  flaggedPlayers: FlaggedPlayer[];
+}
+
+export interface GameResetPayload {
+  message: string;
+}
+
+// pending/sent = queued for retry by the server's payout worker
+export type PayoutStatus = 'pending' | 'sent' | 'confirmed' | 'failed';
+
+// One transfer - a place paid in two assets has two results
+export interface RewardResult extends RewardAmount {
+  place: number;
+  wallet: string;
+  coins: number;
+  percent: number;
+  amount: number; // units / 10^decimals
+  success: boolean;
+  status: PayoutStatus;
+  signature: string | null;
+  txUrl: string | null;
+  simulated: boolean;
+  error: string | null;
+}
+
+export interface RewardsDistributedPayload {
+  winners: RewardResult[];
+  success: boolean;
+  strategy?: RewardStrategyName;
+  batched?: boolean; // All winners paid in one transaction
+  signature?: string | null; // Batch transaction signature
+  txUrl?: string | null; // Batch transaction link
+  error?: string;
+}
+
+// ============ VOICE CHAT ============
+
+export interface VoicePeerPayload {
+  peerId: string;
+}
+
+export interface VoicePeersListPayload {
+  peers: string[];
+}
+
+export interface VoicePeerMutedPayload {
+  peerId: string;
+  muted: boolean;
+}
+
+export interface VoiceOfferPayload {
+  fromId: string;
+  offer: RTCSessionDescriptionInit;
+}
+
+export interface VoiceAnswerPayload {
+  fromId: string;
+  answer: RTCSessionDescriptionInit;
+}
+
+export interface VoiceIceCandidatePayload {
+  fromId: string;
+  candidate: RTCIceCandidateInit;
+}
+
+// ============ CLIENT -> SERVER ============
+
+export interface WalletChallengeRequest {
+  walletAddress: string;
+}
+
+export interface JoinLobbyRequest {
+  walletAddress: string;
+  signature?: string; // base64 ed25519 signature of the challenge message
+  lobbyType?: LobbyType; // Defaults to free
+  escrowAddress?: string; // buyin: escrow the entry fee was paid to
+  depositSignature?: string; // buyin: confirmed entry fee transaction
+}
+
+export interface ResumeSessionRequest {
+  resumeToken: string;
+}
+
+export interface JoinSpectatorRequest {
+  roomId?: string; // Omit to watch any running match
+}
+
+export interface PlayerMoveRequest {
+  position: Vec3;
+  rotation: Rotation;
+}
+
+export interface CollectPennyRequest {
+  pennyId: string;
+}
+
+export interface CollectPowerUpRequest {
+  powerUpId: string;
+}
+
+export interface DoorToggleRequest {
+  doorId: string;
+}
+
+export interface VoiceOfferRequest {
+  targetId: string;
+  offer: RTCSessionDescriptionInit;
+}
+
+export interface VoiceAnswerRequest {
+  targetId: string;
+  answer: RTCSessionDescriptionInit;
+}
+
+export interface VoiceIceCandidateRequest {
+  targetId: string;
+  candidate: RTCIceCandidateInit;
+}
+
+export interface VoiceMuteToggleRequest {
+  muted: boolean;
+}
+
+// Sent back when the server drops a malformed payload
+export interface InvalidPayloadPayload {
+  event: keyof ClientToServerEvents;
+}
+
+// ============ EVENT MAPS ============
+
+export interface ServerToClientEvents {
+  wallet_challenge: (data: WalletChallengePayload) => void;
+  lobby_joined: (data: LobbyJoinedPayload) => void;
+  lobby_update: (lobbyState: LobbyState) => void;
+  lobby_timer: (data: LobbyTimerPayload) => void;
+  lobby_message: (data: LobbyMessagePayload) => void;
+  lobby_cancelled: (data: LobbyCancelledPayload) => void;
+  spectator_joined: (data: SpectatorJoinedPayload) => void;
+  game_start: (data: GameStartPayload) => void;
+  game_timer: (data: TimerPayload) => void;
+  world_snapshot: (snapshot: WorldSnapshot) => void;
+  position_correction: (data: PositionCorrectionPayload) => void;
+  collect_rejected: (data: CollectRejectedPayload) => void;
+  radar_pulse: (data: RadarPulsePayload) => void;
+  player_left: (data: PlayerLeftPayload) => void;
+  session_resumed: (data: SessionResumedPayload) => void;
+  player_resumed: (data: PlayerResumedPayload) => void;
+  game_end: (data: GameEndPayload) => void;
+  game_reset: (data: GameResetPayload) => void;
+  rewards_distributed: (data: RewardsDistributedPayload) => void;
+  invalid_payload: (data: InvalidPayloadPayload) => void;
+  voice_peer_joined: (data: VoicePeerPayload) => void;
+  voice_peers_list: (data: VoicePeersListPayload) => void;
+  voice_peer_left: (data: VoicePeerPayload) => void;
+  voice_peer_muted: (data: VoicePeerMutedPayload) => void;
+  voice_offer: (data: VoiceOfferPayload) => void;
+  voice_answer: (data: VoiceAnswerPayload) => void;
+  voice_ice_candidate: (data: VoiceIceCandidatePayload) => void;
+}
+
+export interface ClientToServerEvents {
+  request_wallet_challenge: (data: WalletChallengeRequest) => void;
+  join_lobby: (data: JoinLobbyRequest) => void;
+  resume_session: (data: ResumeSessionRequest) => void;
+  join_spectator: (data?: JoinSpectatorRequest) => void;
+  player_move: (data: PlayerMoveRequest) => void;
+  collect_penny: (data: CollectPennyRequest) => void;
+  collect_power_up: (data: CollectPowerUpRequest) => void;
+  door_toggle: (data: DoorToggleRequest) => void;
+  voice_join: () => void;
+  voice_leave: () => void;
+  voice_offer: (data: VoiceOfferRequest) => void;
+  voice_answer: (data: VoiceAnswerRequest) => void;
+  voice_ice_candidate: (data: VoiceIceCandidateRequest) => void;
+  voice_mute_toggle: (data: VoiceMuteToggleRequest) => void;
+}
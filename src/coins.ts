@@ -0,0 +1,93 @@
+// Coin meshes per tier. Values and spawn odds come from the server - this only
+// decides how each tier looks. Geometry, materials and the glow texture are shared
+// by every coin of a tier.
+import * as THREE from 'three';
+import type { CoinTier } from '../shared/protocol';
+
+interface CoinStyle {
+    radius: number;
+    color: number;
+    metalness: number;
+    roughness: number;
+    emissiveIntensity: number;
+    glow: number | null; // Halo colour, null = no halo
+}
+
+const COIN_STYLES: Record<CoinTier, CoinStyle> = {
+    bronze: { radius: 0.25, color: 0xCD7F32, metalness: 0.7, roughness: 0.35, emissiveIntensity: 0.1, glow: null },
+    silver: { radius: 0.3, color: 0xD8D8E0, metalness: 0.9, roughness: 0.2, emissiveIntensity: 0.15, glow: null },
+    gold: { radius: 0.35, color: 0xFFD700, metalness: 0.8, roughness: 0.2, emissiveIntensity: 0.3, glow: 0xFFD700 },
+    jackpot: { radius: 0.5, color: 0xB44CFF, metalness: 0.6, roughness: 0.15, emissiveIntensity: 0.7, glow: 0xE0A0FF }
+};
+
+// CSS colour of the "+N" popup per tier
+export const COIN_TIER_COLORS: Record<CoinTier, string> = {
+    bronze: '#e0a070',
+    silver: '#e8e8f0',
+    gold: '#ffd700',
+    jackpot: '#e0a0ff'
+};
+
+const assets = new Map<CoinTier, { geometry: THREE.CylinderGeometry; material: THREE.MeshStandardMaterial; glow: THREE.SpriteMaterial | null }>();
+let glowTexture: THREE.Texture | null = null;
+
+// Soft radial gradient for the halo sprites
+function getGlowTexture(): THREE.Texture {
+    if (!glowTexture) {
+        const canvas = document.createElement('canvas');
+        canvas.width = canvas.height = 64;
+        const ctx = canvas.getContext('2d')!;
+        const gradient = ctx.createRadialGradient(32, 32, 0, 32, 32, 32);
+        gradient.addColorStop(0, 'rgba(255, 255, 255, 1)');
+        gradient.addColorStop(0.4, 'rgba(255, 255, 255, 0.35)');
+        gradient.addColorStop(1, 'rgba(255, 255, 255, 0)');
+        ctx.fillStyle = gradient;
+        ctx.fillRect(0, 0, 64, 64);
+        glowTexture = new THREE.CanvasTexture(canvas);
+    }
+    return glowTexture;
+}
+
+function getAssets(tier: CoinTier) {
+    let tierAssets = assets.get(tier);
+    if (!tierAssets) {
+        const style = COIN_STYLES[tier];
+        tierAssets = {
+            geometry: new THREE.CylinderGeometry(style.radius, style.radius, 0.05, 32),
+            material: new THREE.MeshStandardMaterial({
+                color: style.color,
+                metalness: style.metalness,
+                roughness: style.roughness,
+                emissive: style.color,
+                emissiveIntensity: style.emissiveIntensity
+            }),
+            glow: style.glow === null ? null : new THREE.SpriteMaterial({
+                map: getGlowTexture(),
+                color: style.glow,
+                blending: THREE.AdditiveBlending,
+                transparent: true,
+                depthWrite: false
+            })
+        };
+        assets.set(tier, tierAssets);
+    }
+    return tierAssets;
+}
+
+// A coin standing on its edge, with a halo for the valuable tiers
+export function createCoinMesh(tier: CoinTier): THREE.Mesh {
+    const { geometry, material, glow } = getAssets(tier);
+    const coin = new THREE.Mesh(geometry, material);
+    coin.rotation.x = Math.PI / 2;
+    coin.castShadow = true;
+    coin.receiveShadow = true;
+    coin.userData.tier = tier;
+
+    if (glow) {
+        const halo = new THREE.Sprite(glow);
+        const size = COIN_STYLES[tier].radius * 5;
+        halo.scale.set(size, size, 1);
+        coin.add(halo);
+    }
+    return coin;
+}
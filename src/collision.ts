@@ -0,0 +1,101 @@
+// Player collision against the solid parts of the world. The world layout lists a collider
+// for everything that should block movement (layoutColliders in server/worldLayout.mjs);
+// resolveMovement moves a circle (the player seen from above) against them and slides it
+// along whatever it hits.
+import type { Collider } from '../server/worldLayout.mjs';
+
+export interface Point2 {
+    x: number;
+    z: number;
+}
+
+const RESOLVE_ITERATIONS = 3; // Pushing out of one collider can push into a neighbour
+
+// Push a circle at (x, z) out of an axis-aligned box centred on the origin.
+// Returns the corrected position, or null if they don't overlap.
+function pushOutOfBox(x: number, z: number, halfWidth: number, halfDepth: number, radius: number): Point2 | null {
+    const closestX = Math.max(-halfWidth, Math.min(halfWidth, x));
+    const closestZ = Math.max(-halfDepth, Math.min(halfDepth, z));
+    const dx = x - closestX;
+    const dz = z - closestZ;
+    const distanceSq = dx * dx + dz * dz;
+
+    if (distanceSq >= radius * radius) return null;
+
+    if (distanceSq > 0) {
+        const distance = Math.sqrt(distanceSq);
+        return { x: closestX + (dx / distance) * radius, z: closestZ + (dz / distance) * radius };
+    }
+
+    // Centre inside the box - leave through the nearest face
+    const exitX = halfWidth - Math.abs(x);
+    const exitZ = halfDepth - Math.abs(z);
+    if (exitX < exitZ) {
+        return { x: (x < 0 ? -1 : 1) * (halfWidth + radius), z };
+    }
+    return { x, z: (z < 0 ? -1 : 1) * (halfDepth + radius) };
+}
+
+// Corrected position of a circle overlapping `collider`, or null if it doesn't
+function pushOut(collider: Collider, x: number, z: number, radius: number): Point2 | null {
+    const dx = x - collider.x;
+    const dz = z - collider.z;
+
+    switch (collider.kind) {
+        case 'circle': {
+            const minDistance = collider.radius + radius;
+            const distanceSq = dx * dx + dz * dz;
+            if (distanceSq >= minDistance * minDistance) return null;
+
+            const distance = Math.sqrt(distanceSq);
+            if (distance === 0) return { x: collider.x + minDistance, z };
+            return { x: collider.x + (dx / distance) * minDistance, z: collider.z + (dz / distance) * minDistance };
+        }
+        case 'box': {
+            const local = pushOutOfBox(dx, dz, collider.halfWidth, collider.halfDepth, radius);
+            return local && { x: collider.x + local.x, z: collider.z + local.z };
+        }
+        case 'orientedBox': {
+            // Into the box's frame and back out (same convention as a Three.js yaw)
+            const cos = Math.cos(collider.rotation);
+            const sin = Math.sin(collider.rotation);
+            const local = pushOutOfBox(dx * cos - dz * sin, dx * sin + dz * cos, collider.halfWidth, collider.halfDepth, radius);
+            return local && {
+                x: collider.x + local.x * cos + local.z * sin,
+                z: collider.z - local.x * sin + local.z * cos
+            };
+        }
+    }
+}
+
+// Move a circle from `from` to `to` without entering any collider. Only the part of the
+// move pointing into a surface is removed, so running into a wall at an angle slides
+// along it. Long moves are split into steps no longer than the radius so fast players
+// can't skip through thin colliders.
+export function resolveMovement(from: Point2, to: Point2, radius: number, colliders: readonly Collider[]): Point2 {
+    const moveX = to.x - from.x;
+    const moveZ = to.z - from.z;
+    const steps = Math.max(1, Math.ceil(Math.sqrt(moveX * moveX + moveZ * moveZ) / radius));
+
+    let x = from.x;
+    let z = from.z;
+    for (let step = 0; step < steps; step++) {
+        x += moveX / steps;
+        z += moveZ / steps;
+
+        for (let i = 0; i < RESOLVE_ITERATIONS; i++) {
+            let moved = false;
+            for (const collider of colliders) {
+                const corrected = pushOut(collider, x, z, radius);
+                if (corrected) {
+                    x = corrected.x;
+                    z = corrected.z;
+                    moved = true;
+                }
+            }
+            if (!moved) break;
+        }
+    }
+
+    return { x, z };
+}
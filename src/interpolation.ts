@@ -0,0 +1,110 @@
+// Snapshot interpolation for remote players.
+// Remote avatars are rendered slightly in the past so there are always two
+// server snapshots to blend between, which hides the 50ms send rate and jitter.
+
+export interface PlayerSnapshot {
+    t: number; // Server timestamp (ms)
+    x: number;
+    z: number;
+    yaw: number;
+}
+
+// Estimates the offset between the server clock and Date.now()
+export class ServerClock {
+    private offset: number | null = null;
+
+    observe(serverTime: number): void {
+        // serverTime - now = true offset - network latency, so the largest sample
+        // is the least delayed one. Drift slowly downwards to follow clock changes.
+        const sample = serverTime - Date.now();
+        if (this.offset === null || sample > this.offset) {
+            this.offset = sample;
+        } else {
+            this.offset += (sample - this.offset) * 0.01;
+        }
+    }
+
+    now(): number {
+        return Date.now() + (this.offset ?? 0);
+    }
+
+    reset(): void {
+        this.offset = null;
+    }
+}
+
+export class SnapshotBuffer {
+    private snapshots: PlayerSnapshot[] = [];
+    private maxSnapshots: number = 30; // ~1.5s of history at 20 updates/sec
+    private maxExtrapolationMs: number;
+    private settleMs: number; // Easing back to the last real position once extrapolation runs out
+
+    constructor(maxExtrapolationMs: number = 250, settleMs: number = 250) {
+        this.maxExtrapolationMs = maxExtrapolationMs;
+        this.settleMs = settleMs;
+    }
+
+    push(snapshot: PlayerSnapshot): void {
+        const last = this.snapshots[this.snapshots.length - 1];
+        // Drop out-of-order packets
+        if (last && snapshot.t <= last.t) return;
+
+        this.snapshots.push(snapshot);
+        if (this.snapshots.length > this.maxSnapshots) {
+            this.snapshots.shift();
+        }
+    }
+
+    latest(): PlayerSnapshot | null {
+        return this.snapshots[this.snapshots.length - 1] || null;
+    }
+
+    // Get the interpolated (or briefly extrapolated) state at renderTime
+    sample(renderTime: number): PlayerSnapshot | null {
+        const count = this.snapshots.length;
+        if (count === 0) return null;
+
+        const first = this.snapshots[0];
+        if (count === 1 || renderTime <= first.t) {
+            return { ...first, t: renderTime };
+        }
+
+        // Interpolate between the two snapshots surrounding renderTime
+        for (let i = count - 1; i > 0; i--) {
+            const from = this.snapshots[i - 1];
+            const to = this.snapshots[i];
+            if (renderTime >= from.t && renderTime <= to.t) {
+                const alpha = (renderTime - from.t) / (to.t - from.t);
+                return {
+                    t: renderTime,
+                    x: from.x + (to.x - from.x) * alpha,
+                    z: from.z + (to.z - from.z) * alpha,
+                    yaw: lerpAngle(from.yaw, to.yaw, alpha)
+                };
+            }
+        }
+
+        // No newer snapshot yet (packet loss - a player who stops is sent once more standing still) -
+        // keep moving along the last velocity for a short while, then ease back to the last snapshot
+        const prev = this.snapshots[count - 2];
+        const last = this.snapshots[count - 1];
+        const elapsed = renderTime - last.t;
+        const settle = Math.min(Math.max(elapsed - this.maxExtrapolationMs, 0) / this.settleMs, 1);
+        const ahead = Math.min(elapsed, this.maxExtrapolationMs) * (1 - settle * settle * (3 - 2 * settle)); // smoothstep
+        const span = last.t - prev.t;
+        return {
+            t: renderTime,
+            x: last.x + ((last.x - prev.x) / span) * ahead,
+            z: last.z + ((last.z - prev.z) / span) * ahead,
+            yaw: last.yaw
+        };
+    }
+}
+
+// Interpolate between two angles along the shortest arc
+export function lerpAngle(from: number, to: number, alpha: number): number {
+    let diff = (to - from) % (Math.PI * 2);
+    if (diff > Math.PI) diff -= Math.PI * 2;
+    if (diff < -Math.PI) diff += Math.PI * 2;
+    return from + diff * alpha;
+}
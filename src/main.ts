@@ -2,7 +2,38 @@ import './style.css';
 import * as THREE from 'three';
 import { io, Socket } from 'socket.io-client';
 import { World } from './world';
-import { UI } from './ui';
+import { UI, formatSol } from './ui';
+import { ServerClock, SnapshotBuffer, lerpAngle } from './interpolation';
+import { SpectatorCamera } from './spectatorCamera';
+import { COIN_TIER_COLORS, createCoinMesh } from './coins';
+import { PowerUpManager } from './powerUps';
+import { resolveMovement } from './collision';
+import { SpatialGrid } from '../server/spatialGrid.mjs';
+import { signChallenge } from './solanaWallet';
+import { WalletConnector } from './walletConnector';
+import { installMockWallet } from './mockWallet';
+import type { GameMap } from '../server/worldLayout.mjs';
+import type {
+  ActiveEffect,
+  ClientToServerEvents,
+  CoinTier,
+  DoorState,
+  GameEndPayload,
+  GameResetPayload,
+  GameState,
+  LobbyState,
+  LobbyType,
+  PennyInfo,
+  PlayerMoveRequest,
+  PowerUpInfo,
+  ResumeState,
+  Rotation,
+  ServerToClientEvents,
+  Vec3,
+  WorldSnapshot
+} from '../shared/protocol';
+
+type GameSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
 
 // Server connection
 const SERVER_URL = import.meta.env.PROD
@@ -10,7 +41,7 @@ const SERVER_URL = import.meta.env.PROD
   : 'http://localhost:9113';
 
 class CoinSnifferGame {
-  private socket: Socket;
+  private socket: GameSocket;
   private scene: THREE.Scene;
   private camera: THREE.PerspectiveCamera;
   private renderer: THREE.WebGLRenderer;
@@ -18,8 +49,17 @@ class CoinSnifferGame {
   private ui: UI;
 
   private playerId: string = '';
+  private resumeToken: string | null = null; // Lets us re-attach to a match after a dropped connection
   private isPlaying: boolean = false;
   private isSpectating: boolean = false;
+  private spectatorCamera: SpectatorCamera;
+  private walletConnector: WalletConnector;
+
+  // Lobby browsing - the server keeps one open lobby per type
+  private lobbyStates: Map<LobbyType, LobbyState> = new Map();
+  private selectedLobbyType: LobbyType = 'free';
+  private lobbyRoomId: string | null = null; // Lobby we joined
+  private pendingDeposit: { escrowAddress: string; signature: string } | null = null; // Entry fee paid but not yet credited
 
   // Player controls
   private moveForward: boolean = false;
@@ -38,9 +78,20 @@ class CoinSnifferGame {
   // Game state
   private myScore: number = 0;
   private pennies: Map<string, THREE.Mesh> = new Map();
+  private pennyGrid: SpatialGrid = new SpatialGrid(); // Uncollected coins, for pickup and nearest-coin queries
+  private powerUps: PowerUpManager;
   private otherPlayers: Map<string, THREE.Group> = new Map();
   private playerWallets: Map<string, string> = new Map();
 
+  // Remote player interpolation
+  private serverClock: ServerClock = new ServerClock();
+  private remoteSnapshots: Map<string, SnapshotBuffer> = new Map();
+  private interpolationDelay: number = 100; // Render remote players 100ms in the past
+  private yawSmoothing: number = 12; // Higher = snappier rotation
+  private showNetDebug: boolean = false;
+  private netDebugMarkers: Map<string, THREE.Mesh> = new Map(); // Raw (un-interpolated) positions
+  private lastSnapshotSeq: number = 0;
+
   // Audio
   private audioContext: AudioContext | null = null;
   private coinSound: AudioBuffer | null = null;
@@ -54,6 +105,8 @@ class CoinSnifferGame {
   // Network throttling
   private lastUpdate: number = 0;
   private updateInterval: number = 50; // Send updates every 50ms (20 times/sec) instead of every frame
+  private lastSentMove: PlayerMoveRequest | null = null; // Nothing is sent while we stand still
+  private pendingClaims: Set<string> = new Set(); // Coins claimed that the server hasn't answered for yet
 
   constructor() {
     this.socket = io(SERVER_URL);
@@ -61,7 +114,10 @@ class CoinSnifferGame {
     this.camera = new THREE.PerspectiveCamera(75, window.innerWidth / window.innerHeight, 0.1, 1000);
     this.renderer = new THREE.WebGLRenderer({ antialias: true });
     this.world = new World(this.scene);
+    this.powerUps = new PowerUpManager(this.scene);
     this.ui = new UI();
+    this.spectatorCamera = new SpectatorCamera(this.camera);
+    this.walletConnector = new WalletConnector((state) => this.ui.updateWalletStatus(state));
 
     this.init();
   }
@@ -414,6 +470,7 @@ class CoinSnifferGame {
 
   private onKeyDown(e: KeyboardEvent): void {
     if (!this.isPlaying) return;
+    if (this.isSpectating && this.onSpectatorKeyDown(e)) return;
 
     switch (e.code) {
       case 'KeyW':
@@ -451,6 +508,9 @@ class CoinSnifferGame {
       case 'KeyM':
         if (this.isInVoiceChat) this.toggleMute();
         break;
+      case 'KeyI':
+        this.toggleNetDebug();
+        break;
       case 'ShiftLeft':
       case 'ShiftRight':
         this.isSprinting = true;
@@ -458,17 +518,45 @@ class CoinSnifferGame {
     }
   }
 
+  // Camera controls while spectating - returns true if the key was handled
+  private onSpectatorKeyDown(e: KeyboardEvent): boolean {
+    const playerIds = Array.from(this.otherPlayers.keys());
+
+    switch (e.code) {
+      case 'KeyC':
+        this.spectatorCamera.cycleMode(playerIds);
+        break;
+      case 'KeyQ':
+        this.spectatorCamera.cycleTarget(playerIds, -1);
+        break;
+      case 'KeyE':
+        this.spectatorCamera.cycleTarget(playerIds, 1);
+        break;
+      case 'KeyF':
+        this.spectatorCamera.toggleFirstPerson();
+        break;
+      case 'Space':
+        break; // No jumping for spectators
+      default:
+        return false;
+    }
+
+    this.ui.updateSpectatorHud(this.spectatorCamera.describe(this.playerWallets));
+    return true;
+  }
+
   private interactWithDoor(): void {
     const playerPos = this.camera.position;
     const interactRadius = 3;
 
+    // The server opens it for everyone - the door swings when the next snapshot says so
     for (const door of this.world.doors) {
       const doorWorldPos = new THREE.Vector3();
       door.getWorldPosition(doorWorldPos);
 
       const distance = playerPos.distanceTo(doorWorldPos);
       if (distance < interactRadius) {
-        this.world.toggleDoor(door);
+        this.socket.emit('door_toggle', { doorId: door.userData.doorId });
         break;
       }
     }
@@ -501,6 +589,7 @@ class CoinSnifferGame {
 
   private onMouseMove(e: MouseEvent): void {
     if (!this.isPointerLocked || !this.isPlaying) return;
+    if (this.isSpectating && !this.spectatorCamera.allowsMouseLook()) return;
 
     const sensitivity = 0.002;
     this.euler.setFromQuaternion(this.camera.quaternion);
@@ -513,77 +602,165 @@ class CoinSnifferGame {
   private setupSocketEvents(): void {
     this.socket.on('connect', () => {
       console.log('Connected to server');
+
+      // socket.io reconnected us with a new socket id - re-attach to the running match
+      if (this.resumeToken && this.isPlaying && !this.isSpectating) {
+        this.socket.emit('resume_session', { resumeToken: this.resumeToken });
+      } else if (this.lobbyRoomId) {
+        // Lobby slots aren't held - the server let ours go with the old connection
+        this.leaveDroppedLobby();
+      }
     });
 
-    this.socket.on('lobby_joined', (data: any) => {
+    this.socket.on('disconnect', (reason) => {
+      console.warn(`Disconnected from server (${reason})`);
+    });
+
+    this.socket.on('session_resumed', (data) => {
+      if (data.success) {
+        this.restoreSession(data.state);
+      } else {
+        // Grace period ran out - back to the lobby
+        this.resumeToken = null;
+        this.isPlaying = false;
+        document.exitPointerLock();
+        this.resetGame({ message: data.reason });
+        this.ui.showScreen('lobby');
+        this.ui.showMessage(`Could not rejoin the match: ${data.reason}`, 'error');
+      }
+    });
+
+    this.socket.on('player_resumed', (data) => {
+      if (data.player.id === this.playerId) return;
+      this.powerUps.renamePlayer(data.previousId, data.player.id);
+      this.removeOtherPlayer(data.previousId);
+      this.spawnOtherPlayer(data.player.id, data.player.position, data.player.walletAddress);
+    });
+
+    // Prove we own the wallet by signing the server's challenge
+    this.socket.on('wallet_challenge', async (data) => {
+      if (!data.required) {
+        // Server runs in unverified mode - a typed address is enough
+        this.sendJoinRequest(data.walletAddress);
+        return;
+      }
+
+      const provider = this.walletConnector.provider;
+      if (!provider || this.walletConnector.connectedAddress !== data.walletAddress) {
+        this.ui.showMessage('Connect your wallet to sign in - typed addresses only work on test servers', 'error');
+        return;
+      }
+
+      try {
+        const signature = await signChallenge(provider, data.message);
+        this.sendJoinRequest(data.walletAddress, signature);
+      } catch (error) {
+        console.error('Wallet signing failed:', error);
+        this.ui.showMessage('Wallet signature was cancelled', 'error');
+      }
+    });
+
+    this.socket.on('lobby_joined', (data) => {
       if (data.success) {
         this.playerId = data.playerId;
+        this.resumeToken = data.resumeToken;
+        this.setLobbyRoom(data.roomId);
+        this.pendingDeposit = null;
+        this.ui.showAdmissionRefusal(null);
         this.ui.showMessage('Joined lobby! Waiting for game...', 'success');
         this.ui.updateLobby(data.lobbyState);
       } else {
+        if (data.depositResolved) {
+          this.pendingDeposit = null;
+          this.walletConnector.refreshBalance();
+        }
+        this.ui.showAdmissionRefusal(data.refusal ?? null);
         this.ui.showMessage(data.reason, 'error');
       }
     });
 
-    this.socket.on('lobby_update', (lobbyState: any) => {
-      this.ui.updateLobby(lobbyState);
+    this.socket.on('lobby_update', (lobbyState) => {
+      this.lobbyStates.set(lobbyState.lobbyType, lobbyState);
+      this.renderLobbyTypes();
+      if (lobbyState.roomId === this.shownLobbyRoomId) {
+        this.ui.updateLobby(lobbyState);
+      }
+    });
+
+    this.socket.on('lobby_timer', (data) => {
+      if (data.roomId === this.shownLobbyRoomId) {
+        this.ui.updateLobbyTimer(data.remaining);
+      }
     });
 
-    this.socket.on('lobby_timer', (data: any) => {
-      this.ui.updateLobbyTimer(data.remaining);
+    // Buy-in lobby didn't fill up in time - we're back to browsing and the entry fee is coming back
+    this.socket.on('lobby_cancelled', (data) => {
+      if (data.roomId !== this.lobbyRoomId) return;
+      this.setLobbyRoom(null);
+      this.resumeToken = null;
+      this.ui.showMessage(data.reason, 'error');
+      this.walletConnector.refreshBalance();
     });
 
-    this.socket.on('lobby_message', (data: any) => {
+    this.socket.on('lobby_message', (data) => {
       this.ui.showMessage(data.message, 'info');
     });
 
-    this.socket.on('spectator_joined', (data: any) => {
+    this.socket.on('spectator_joined', (data) => {
+      if (!data.success) {
+        this.ui.showMessage(data.reason, 'error');
+        return;
+      }
       this.isSpectating = true;
-      this.startGame(data.gameState);
+      if (data.gameState.phase === 'playing') {
+        this.startSpectating(data.gameState);
+      } else {
+        // Nothing running yet - game_start will drop us into the next match
+        this.ui.showMessage('No match in progress - you will watch the next one', 'info');
+      }
     });
 
-    this.socket.on('game_start', (data: any) => {
+    this.socket.on('game_start', (data) => {
       this.startGame(data);
     });
 
-    this.socket.on('game_timer', (data: any) => {
+    this.socket.on('game_timer', (data) => {
       this.ui.updateGameTimer(data.remaining);
     });
 
-    this.socket.on('player_moved', (data: any) => {
-      this.updateOtherPlayer(data.playerId, data.position, data.rotation);
+    // Batched world state from the server tick
+    this.socket.on('world_snapshot', (snapshot) => {
+      this.applyWorldSnapshot(snapshot);
     });
 
-    this.socket.on('penny_collected', (data: any) => {
-      this.removePenny(data.pennyId);
-      if (data.playerId === this.playerId) {
-        this.myScore = data.playerScore;
-        this.ui.updateScore(this.myScore);
-        // Play coin collection sound
-        this.playCoinSound();
-      }
+    // Server rejected or clamped our last move - snap to the authoritative position
+    this.socket.on('position_correction', (data) => {
+      console.warn(`Position corrected by server (${data.reason})`);
+      this.camera.position.set(data.position.x, data.position.y, data.position.z);
+      this.velocity.set(0, 0, 0);
     });
 
-    this.socket.on('scores_update', (scores: any[]) => {
-      this.ui.updateLeaderboard(scores);
+    // Server refused a penny claim (we were too far away according to our last known position)
+    this.socket.on('collect_rejected', (data) => {
+      this.pendingClaims.delete(data.pennyId);
+      console.warn(`Penny claim ${data.pennyId} rejected (${data.reason})`);
     });
 
-    this.socket.on('player_left', (data: any) => {
-      this.removeOtherPlayer(data.playerId);
+    // We picked up a radar - light up the coins it found
+    this.socket.on('radar_pulse', (data) => {
+      console.log(`📡 Radar found ${data.pennyIds.length} coins within ${data.radius}m`);
+      this.powerUps.showRadar(data.pennyIds, this.pennies, data.expiresAt);
     });
 
-    // Handle new coins spawning during game
-    this.socket.on('coins_spawned', (data: { coins: Array<{ id: string; position: { x: number; y: number; z: number } }> }) => {
-      console.log(`🪙 ${data.coins.length} new coins spawned!`);
-      for (const coin of data.coins) {
-        this.spawnPenny(coin.id, coin.position);
-      }
-      this.ui.updatePenniesLeft(this.pennies.size);
-      // Play a subtle spawn sound
-      this.playSpawnSound();
+    this.socket.on('invalid_payload', (data) => {
+      console.error(`Server rejected malformed ${data.event} payload`);
+    });
+
+    this.socket.on('player_left', (data) => {
+      this.removeOtherPlayer(data.playerId);
     });
 
-    this.socket.on('game_end', (data: any) => {
+    this.socket.on('game_end', (data) => {
       this.endGame(data);
       // Leave voice chat when game ends
       if (this.isInVoiceChat) {
@@ -591,21 +768,79 @@ class CoinSnifferGame {
       }
     });
 
-    this.socket.on('game_reset', (data: any) => {
+    this.socket.on('game_reset', (data) => {
       this.resetGame(data);
     });
 
-    this.socket.on('rewards_distributed', (data: any) => {
+    this.socket.on('rewards_distributed', (data) => {
       console.log('Rewards distributed:', data);
-      if (data.success && data.results) {
-        // Show Solscan links for each winner
-        this.ui.showRewardResults(data.results);
+      if (data.success && data.winners.length > 0) {
+        // Show explorer links for each winner
+        this.ui.showRewardResults(data.winners, data.batched ? data.txUrl ?? null : null);
       } else {
         this.ui.showMessage('⚠️ Reward distribution had issues', 'error');
       }
     });
   }
 
+  private applyWorldSnapshot(snapshot: WorldSnapshot): void {
+    // Drop stale or duplicate snapshots
+    if (snapshot.seq <= this.lastSnapshotSeq) return;
+    this.lastSnapshotSeq = snapshot.seq;
+
+    this.serverClock.observe(snapshot.t);
+
+    // Remote player movement
+    for (const p of snapshot.players) {
+      if (p.id === this.playerId) continue;
+      this.updateOtherPlayer(p.id, { x: p.x, y: p.y, z: p.z }, { x: p.rx, y: p.ry }, snapshot.t);
+    }
+
+    // Collected coins
+    for (const c of snapshot.collected) {
+      if (c.playerId === this.playerId) {
+        this.showCollectPopup(c.pennyId, c.value);
+      }
+      this.removePenny(c.pennyId);
+      if (c.playerId === this.playerId) {
+        this.myScore = c.playerScore;
+        this.ui.updateScore(this.myScore);
+        // Play coin collection sound
+        this.playCoinSound();
+      }
+    }
+
+    // Handle new coins spawning during game
+    if (snapshot.spawned.length > 0) {
+      console.log(`🪙 ${snapshot.spawned.length} new coins spawned!`);
+      for (const coin of snapshot.spawned) {
+        this.spawnPenny(coin);
+      }
+      this.ui.updatePenniesLeft(this.pennies.size);
+      // Play a subtle spawn sound
+      this.playSpawnSound();
+    }
+
+    if (snapshot.scores) {
+      this.ui.updateLeaderboard(snapshot.scores);
+    }
+
+    for (const powerUp of snapshot.powerUpsSpawned ?? []) {
+      this.powerUps.spawn(powerUp);
+    }
+    for (const door of snapshot.doors ?? []) {
+      this.world.setDoorOpen(door.id, door.open);
+    }
+
+    for (const pickup of snapshot.powerUpsCollected ?? []) {
+      this.powerUps.remove(pickup.powerUpId);
+      this.powerUps.applyEffect(pickup);
+      if (pickup.playerId === this.playerId) {
+        this.playSpawnSound();
+      }
+    }
+  }
+
   private setupUIEvents(): void {
     const joinBtn = document.getElementById('join-btn');
     const spectateBtn = document.getElementById('spectate-btn');
@@ -616,15 +851,38 @@ class CoinSnifferGame {
 
     if (joinBtn) {
       joinBtn.addEventListener('click', () => {
-        const wallet = walletInput?.value.trim();
-        if (wallet && wallet.length >= 32) {
-          this.socket.emit('join_lobby', { walletAddress: wallet });
+        // Connected wallet first, typed address only as a fallback
+        const wallet = this.walletConnector.connectedAddress || walletInput?.value.trim();
+
+        if (this.selectedLobbyType === 'buyin' && !this.walletConnector.connectedAddress) {
+          this.ui.showMessage('Connect a wallet to pay the entry fee', 'error');
+        } else if (wallet && wallet.length >= 32) {
+          this.socket.emit('request_wallet_challenge', { walletAddress: wallet });
         } else {
           this.ui.showMessage('Please enter a valid Solana wallet address', 'error');
         }
       });
     }
 
+    // Wallet connect panel
+    this.ui.renderWalletOptions(this.walletConnector.getOptions(), async (option) => {
+      try {
+        await this.walletConnector.connect(option);
+      } catch (error) {
+        console.error('Wallet connection failed:', error);
+        this.ui.showMessage(`Could not connect to ${option.name}`, 'error');
+      }
+    });
+
+    const disconnectBtn = document.getElementById('wallet-disconnect-btn');
+    if (disconnectBtn) {
+      disconnectBtn.addEventListener('click', () => {
+        this.walletConnector.disconnect();
+      });
+    }
+
+    this.walletConnector.restore();
+
     if (spectateBtn) {
       spectateBtn.addEventListener('click', () => {
         this.socket.emit('join_spectator');
@@ -634,6 +892,7 @@ class CoinSnifferGame {
     if (playAgainBtn) {
       playAgainBtn.addEventListener('click', () => {
         this.ui.showScreen('lobby');
+        this.walletConnector.refreshBalance(); // Pick up any reward that just landed
       });
     }
 
@@ -655,26 +914,44 @@ class CoinSnifferGame {
     }
   }
 
-  private startGame(data: any): void {
+  // Accepts both the game_start payload and the spectator game state
+  private startGame(data: {
+    players: Array<{ id: string; position: Vec3; walletAddress?: string }>;
+    pennies?: PennyInfo[];
+    powerUps?: PowerUpInfo[];
+    effects?: ActiveEffect[];
+    doors?: DoorState[];
+    map: GameMap;
+    seed: number;
+  }): void {
     this.isPlaying = true;
+    this.setLobbyRoom(null); // Our lobby became this match
+    this.lastSentMove = null;
     this.myScore = 0;
+    this.lastSnapshotSeq = 0; // Server restarts the sequence every match
 
     // Show game screen
     this.ui.showScreen('game');
     this.ui.updateScore(0);
 
     // Build the world
-    this.world.build();
+    this.world.load(data.map, data.seed);
+    this.pennyGrid = new SpatialGrid({ size: data.map.size });
+    this.world.applyDoorStates(data.doors ?? []);
 
     // Spawn pennies
     if (data.pennies) {
       for (const penny of data.pennies) {
-        this.spawnPenny(penny.id, penny.position);
+        this.spawnPenny(penny);
       }
     }
 
+    // Power-ups already on the map when joining mid-match
+    data.powerUps?.forEach(powerUp => this.powerUps.spawn(powerUp));
+    data.effects?.forEach(effect => this.powerUps.applyEffect(effect));
+
     // Set player starting position
-    const myPlayer = data.players?.find((p: any) => p.id === this.playerId);
+    const myPlayer = data.players?.find(p => p.id === this.playerId);
     if (myPlayer) {
       this.camera.position.set(myPlayer.position.x, myPlayer.position.y, myPlayer.position.z);
     }
@@ -690,30 +967,88 @@ class CoinSnifferGame {
 
     // Update pennies remaining
     this.ui.updatePenniesLeft(data.pennies?.length || 0);
+
+    this.ui.showSpectatorHud(this.isSpectating);
+    if (this.isSpectating) {
+      this.spectatorCamera.reset();
+      this.ui.updateSpectatorHud(this.spectatorCamera.describe(this.playerWallets));
+    }
   }
 
-  private spawnPenny(id: string, position: { x: number; y: number; z: number }): void {
-    const geometry = new THREE.CylinderGeometry(0.3, 0.3, 0.05, 32);
-    const material = new THREE.MeshStandardMaterial({
-      color: 0xFFD700,
-      metalness: 0.8,
-      roughness: 0.2,
-      emissive: 0xFFD700,
-      emissiveIntensity: 0.2
-    });
+  // Join a match already in progress as a spectator
+  private startSpectating(state: GameState): void {
+    this.startGame(state);
+    this.lastSnapshotSeq = state.seq;
+    this.ui.updateLeaderboard(state.scores);
+    this.ui.updateGameTimer(state.timeRemaining);
+  }
+
+  // Rebuild match entities from the server's resume snapshot without leaving the game screen
+  private restoreSession(state: ResumeState): void {
+    console.log('▶️ Session resumed');
+
+    this.playerId = state.playerId;
+    this.lastSnapshotSeq = state.seq;
+    this.lastSentMove = null; // New socket - tell the server where we are
+
+    this.pennies.forEach(penny => this.scene.remove(penny));
+    this.pennies.clear();
+    this.pennyGrid.clear();
+    this.pendingClaims.clear(); // Claims sent on the old socket were never answered
+    for (const penny of state.pennies) {
+      this.spawnPenny(penny);
+    }
 
-    const penny = new THREE.Mesh(geometry, material);
-    penny.position.set(position.x, position.y + 0.5, position.z);
-    penny.rotation.x = Math.PI / 2;
-    penny.castShadow = true;
-    penny.receiveShadow = true;
-    penny.userData.id = id;
+    this.powerUps.clear();
+    state.powerUps.forEach(powerUp => this.powerUps.spawn(powerUp));
+    state.effects.forEach(effect => this.powerUps.applyEffect(effect));
+
+    this.world.applyDoorStates(state.doors);
+
+    Array.from(this.otherPlayers.keys()).forEach(id => this.removeOtherPlayer(id));
+    for (const player of state.players) {
+      if (player.id !== this.playerId) {
+        this.spawnOtherPlayer(player.id, player.position, player.walletAddress);
+      }
+    }
+
+    this.camera.position.set(state.position.x, state.position.y, state.position.z);
+    this.velocity.set(0, 0, 0);
+
+    this.myScore = state.score;
+    this.ui.updateScore(this.myScore);
+    this.ui.updateLeaderboard(state.scores);
+    this.ui.updatePenniesLeft(state.pennies.length);
+    this.ui.updateGameTimer(state.timeRemaining);
+  }
+
+  private spawnPenny(coin: PennyInfo): void {
+    const penny = createCoinMesh(coin.tier);
+    penny.position.set(coin.position.x, coin.position.y + 0.5, coin.position.z);
+    penny.userData.id = coin.id;
 
     this.scene.add(penny);
-    this.pennies.set(id, penny);
+    this.pennies.set(coin.id, penny);
+    this.pennyGrid.insert(coin.id, coin.position.x, coin.position.z);
+  }
+
+  // Floating "+N" where one of our coins was picked up
+  private showCollectPopup(id: string, value: number): void {
+    const penny = this.pennies.get(id);
+    if (!penny) return;
+
+    const screen = penny.position.clone().project(this.camera);
+    if (screen.z > 1) return; // Behind the camera
+
+    const x = THREE.MathUtils.clamp((screen.x + 1) / 2, 0.1, 0.9) * window.innerWidth;
+    const y = THREE.MathUtils.clamp((1 - screen.y) / 2, 0.1, 0.9) * window.innerHeight;
+    this.ui.showScorePopup(`+${value}`, x, y, COIN_TIER_COLORS[penny.userData.tier as CoinTier]);
   }
 
   private removePenny(id: string): void {
+    this.pendingClaims.delete(id);
+    this.powerUps.removeBeacon(id);
+    this.pennyGrid.remove(id); // Gone for pickups and the sniffer while it animates away
     const penny = this.pennies.get(id);
     if (penny) {
       // Animate collection
@@ -876,6 +1211,22 @@ class CoinSnifferGame {
     playerGroup.position.set(position.x, 0, position.z);
     this.scene.add(playerGroup);
     this.otherPlayers.set(id, playerGroup);
+
+    // Seed the snapshot buffer so the avatar holds its spawn position until updates arrive
+    // (t = 0 so it is always older than the first real server snapshot)
+    const snapshots = new SnapshotBuffer();
+    snapshots.push({ t: 0, x: position.x, z: position.z, yaw: 0 });
+    this.remoteSnapshots.set(id, snapshots);
+
+    // Debug marker showing the raw network position
+    const marker = new THREE.Mesh(
+      new THREE.BoxGeometry(0.8, 1.8, 0.8),
+      new THREE.MeshBasicMaterial({ color: 0xFF0000, wireframe: true })
+    );
+    marker.position.set(position.x, 0.9, position.z);
+    marker.visible = this.showNetDebug;
+    this.scene.add(marker);
+    this.netDebugMarkers.set(id, marker);
   }
 
   private createNameTag(text: string): THREE.Sprite {
@@ -913,50 +1264,178 @@ class CoinSnifferGame {
     return sprite;
   }
 
-  private updateOtherPlayer(id: string, position: { x: number; y: number; z: number }, rotation: any): void {
-    const player = this.otherPlayers.get(id);
-    if (player) {
-      player.position.set(position.x, 0, position.z);
-      if (rotation) {
-        player.rotation.y = rotation.y || 0;
-      }
+  // Buffer a server snapshot for a remote player - rendering happens in interpolateOtherPlayers
+  private updateOtherPlayer(id: string, position: Vec3, rotation: Rotation | null, serverTime: number): void {
+    const snapshots = this.remoteSnapshots.get(id);
+    if (!snapshots) return;
+
+    snapshots.push({
+      t: serverTime,
+      x: position.x,
+      z: position.z,
+      yaw: rotation?.y || 0
+    });
+
+    const marker = this.netDebugMarkers.get(id);
+    if (marker) {
+      marker.position.set(position.x, 0.9, position.z);
     }
   }
 
+  // Move remote avatars to their interpolated position, ~100ms behind the server
+  private interpolateOtherPlayers(delta: number): void {
+    const renderTime = this.serverClock.now() - this.interpolationDelay;
+    const yawBlend = 1 - Math.exp(-this.yawSmoothing * delta);
+
+    this.otherPlayers.forEach((player, id) => {
+      const state = this.remoteSnapshots.get(id)?.sample(renderTime);
+      if (!state) return;
+
+      player.position.set(state.x, 0, state.z);
+      player.rotation.y = lerpAngle(player.rotation.y, state.yaw, yawBlend);
+    });
+  }
+
+  private toggleNetDebug(): void {
+    this.showNetDebug = !this.showNetDebug;
+    this.netDebugMarkers.forEach(marker => {
+      marker.visible = this.showNetDebug;
+    });
+    console.log(`Network debug ${this.showNetDebug ? 'on' : 'off'} (red = raw server position)`);
+  }
+
   private removeOtherPlayer(id: string): void {
     const player = this.otherPlayers.get(id);
     if (player) {
       this.scene.remove(player);
       this.otherPlayers.delete(id);
     }
+
+    this.remoteSnapshots.delete(id);
+    const marker = this.netDebugMarkers.get(id);
+    if (marker) {
+      this.scene.remove(marker);
+      this.netDebugMarkers.delete(id);
+    }
   }
 
-  private endGame(data: any): void {
+  private endGame(data: GameEndPayload): void {
     this.isPlaying = false;
+    this.isSpectating = false;
+    this.ui.showSpectatorHud(false);
     document.exitPointerLock();
 
-    // Show results with proportional rewards
-    if (data.totalTop3Coins !== undefined) {
-      this.ui.showResultsWithProportional(data.rankings, data.winners, data.totalTop3Coins);
-    } else {
-      this.ui.showResults(data.rankings, data.winners);
-    }
+    // Reward amounts come from the server exactly as they will be paid
+    this.ui.showResults(data.rankings, data.winners);
     this.ui.showScreen('results');
 
     // REMOVED: cooldown message - players can play again immediately
   }
 
-  private resetGame(_data: any): void {
+  // Waiting in a lobby (roomId) or not - spectating is off while waiting, it would leave the slot behind
+  private setLobbyRoom(roomId: string | null): void {
+    this.lobbyRoomId = roomId;
+    const spectateBtn = document.getElementById('spectate-btn') as HTMLButtonElement | null;
+    if (spectateBtn) {
+      spectateBtn.disabled = roomId !== null;
+    }
+  }
+
+  // Back to the join screen after a reconnect - a buy-in lobby refunds the entry fee when it drops a player.
+  // The lobby_update sent on connect shows the lobby as it is now.
+  private leaveDroppedLobby(): void {
+    this.setLobbyRoom(null);
+    this.resumeToken = null;
+    if (this.selectedLobbyType === 'buyin') {
+      this.ui.showMessage('Connection lost while waiting - you left the lobby and your entry fee is being refunded', 'error');
+      this.walletConnector.refreshBalance();
+    } else {
+      this.ui.showMessage('Connection lost while waiting - you left the lobby, join again to play', 'error');
+    }
+  }
+
+  // Lobby shown on the lobby screen - the one we joined, or the open lobby of the selected type
+  private get shownLobbyRoomId(): string | null {
+    return this.lobbyRoomId ?? this.lobbyStates.get(this.selectedLobbyType)?.roomId ?? null;
+  }
+
+  // Free / buy-in picker - only shown when the server runs buy-in lobbies
+  private renderLobbyTypes(): void {
+    this.ui.renderLobbyTypes(this.lobbyStates.get('buyin')?.buyIn ?? null, this.selectedLobbyType, (lobbyType) => {
+      if (this.lobbyRoomId) {
+        this.ui.showMessage('Already waiting in a lobby', 'error');
+        return;
+      }
+      this.selectedLobbyType = lobbyType;
+      this.renderLobbyTypes();
+      const lobbyState = this.lobbyStates.get(lobbyType);
+      if (lobbyState) {
+        this.ui.updateLobby(lobbyState);
+        this.ui.updateLobbyTimer(lobbyState.timeRemaining);
+      }
+    });
+  }
+
+  // Last step of joining. Buy-in lobbies take the entry fee first - after signing the
+  // challenge, so a cancelled signature never costs anything.
+  private async sendJoinRequest(walletAddress: string, signature?: string): Promise<void> {
+    if (this.selectedLobbyType === 'free') {
+      this.socket.emit('join_lobby', { walletAddress, signature });
+      return;
+    }
+
+    // An entry fee the server never credited (e.g. the challenge expired while paying) is used
+    // as is - the server refunds it if its lobby is gone
+    if (!this.pendingDeposit) {
+      const buyIn = this.lobbyStates.get('buyin')?.buyIn;
+      if (!buyIn) {
+        this.ui.showMessage('No buy-in lobby is open', 'error');
+        return;
+      }
+
+      try {
+        this.ui.showMessage(`Paying the ${formatSol(buyIn.lamports)} SOL entry fee...`, 'info');
+        const depositSignature = await this.walletConnector.payEntryFee(buyIn.escrowAddress, buyIn.lamports);
+        this.pendingDeposit = { escrowAddress: buyIn.escrowAddress, signature: depositSignature };
+      } catch (error) {
+        console.error('Entry fee payment failed:', error);
+        this.ui.showMessage('Entry fee payment was cancelled or failed', 'error');
+        return;
+      }
+    }
+
+    this.socket.emit('join_lobby', {
+      walletAddress,
+      signature,
+      lobbyType: 'buyin',
+      escrowAddress: this.pendingDeposit.escrowAddress,
+      depositSignature: this.pendingDeposit.signature
+    });
+  }
+
+  private resetGame(_data: GameResetPayload): void {
     // Clear world
     this.pennies.forEach(penny => this.scene.remove(penny));
     this.pennies.clear();
+    this.pennyGrid.clear();
+    this.pendingClaims.clear();
+    this.powerUps.clear();
+    this.ui.updatePowerUpHud([], 0);
 
     this.otherPlayers.forEach(player => this.scene.remove(player));
     this.otherPlayers.clear();
 
+    this.netDebugMarkers.forEach(marker => this.scene.remove(marker));
+    this.netDebugMarkers.clear();
+    this.remoteSnapshots.clear();
+    this.serverClock.reset();
+
     // Reset state
     this.myScore = 0;
     this.velocity.set(0, 0, 0);
+    this.isSpectating = false;
+    this.setLobbyRoom(null);
+    this.ui.showSpectatorHud(false);
 
     // Enable play again button
     const playAgainBtn = document.getElementById('play-again-btn') as HTMLButtonElement;
@@ -965,6 +1444,17 @@ class CoinSnifferGame {
     }
   }
 
+  private updateSpectator(delta: number): void {
+    if (!this.isPlaying || !this.isSpectating) return;
+
+    this.spectatorCamera.update(delta, {
+      forward: Number(this.moveForward) - Number(this.moveBackward),
+      right: Number(this.moveRight) - Number(this.moveLeft),
+      fast: this.isSprinting
+    }, this.otherPlayers);
+    this.ui.updateSpectatorHud(this.spectatorCamera.describe(this.playerWallets));
+  }
+
   private updatePlayer(delta: number): void {
     if (!this.isPlaying || this.isSpectating) return;
 
@@ -976,7 +1466,7 @@ class CoinSnifferGame {
     this.direction.x = Number(this.moveRight) - Number(this.moveLeft);
     this.direction.normalize();
 
-    const baseSpeed = 12; // Base walking speed
+    const baseSpeed = 12 * this.powerUps.strength(this.playerId, 'speed', this.serverClock.now()); // Base walking speed, boosted by a speed power-up
     const speed = this.isSprinting ? baseSpeed * 1.8 : baseSpeed; // Sprint is 80% faster
 
     // Store previous position for collision
@@ -1001,12 +1491,13 @@ class CoinSnifferGame {
       this.camera.position.addScaledVector(right, this.direction.x * speed * delta);
     }
 
-    // Check collision with buildings
-    if (this.checkBuildingCollision()) {
-      // Revert position if colliding
-      this.camera.position.x = prevX;
-      this.camera.position.z = prevZ;
-    }
+    // Collide with the world, sliding along walls rather than stopping dead
+    const playerRadius = 0.5;
+    const moved = Math.hypot(this.camera.position.x - prevX, this.camera.position.z - prevZ);
+    const nearby = this.world.getCollidersNear(prevX, prevZ, moved + playerRadius);
+    const resolved = resolveMovement({ x: prevX, z: prevZ }, this.camera.position, playerRadius, nearby);
+    this.camera.position.x = resolved.x;
+    this.camera.position.z = resolved.z;
 
     // Apply gravity
     this.camera.position.y += this.velocity.y * delta;
@@ -1018,15 +1509,15 @@ class CoinSnifferGame {
       this.canJump = true;
     }
 
-    // Keep player in bounds - Updated for bigger map
-    const bounds = 190; // Increased from 55 for 400x400 map
+    // Keep player in bounds
+    const bounds = this.world.bounds;
     this.camera.position.x = Math.max(-bounds, Math.min(bounds, this.camera.position.x));
     this.camera.position.z = Math.max(-bounds, Math.min(bounds, this.camera.position.z));
 
-    // Send position to server (Throttled)
+    // Send position to server (Throttled, and only if we moved or turned)
     const now = Date.now();
     if (now - this.lastUpdate > this.updateInterval) {
-      this.socket.emit('player_move', {
+      const move: PlayerMoveRequest = {
         position: {
           x: this.camera.position.x,
           y: this.camera.position.y,
@@ -1036,86 +1527,46 @@ class CoinSnifferGame {
           x: this.euler.x,
           y: this.euler.y
         }
-      });
+      };
+      const last = this.lastSentMove;
+      if (!last
+        || last.position.x !== move.position.x || last.position.y !== move.position.y || last.position.z !== move.position.z
+        || last.rotation.x !== move.rotation.x || last.rotation.y !== move.rotation.y) {
+        this.socket.emit('player_move', move);
+        this.lastSentMove = move;
+      }
       this.lastUpdate = now;
     }
 
-    // Check for penny collection
+    // Check for penny and power-up collection
     this.checkPennyCollection();
+    this.checkPowerUpCollection();
+
+    const nearest = this.pennyGrid.nearest(this.camera.position.x, this.camera.position.z);
+    this.ui.updateNearestCoin(nearest ? nearest.distance : null);
   }
 
-  // Building collision detection - Updated for bigger map
-  private checkBuildingCollision(): boolean {
+  private checkPennyCollection(): void {
     const playerPos = this.camera.position;
-    const playerRadius = 0.5; // Player collision radius
-
-    // Building positions and sizes (must match world.ts)
-    const buildings = [
-      // Original Israeli buildings
-      { x: 30, z: 30, w: 10, d: 8 },
-      { x: -30, z: 30, w: 10, d: 8 },
-      { x: 30, z: -30, w: 10, d: 8 },
-      { x: -30, z: -30, w: 10, d: 8 },
-      { x: 45, z: 15, w: 10, d: 8 },
-      { x: -45, z: 15, w: 10, d: 8 },
-      { x: 45, z: -15, w: 10, d: 8 },
-      { x: -45, z: -15, w: 10, d: 8 },
-      { x: 15, z: 45, w: 10, d: 8 },
-      { x: -15, z: 45, w: 10, d: 8 },
-      { x: 15, z: -45, w: 10, d: 8 },
-      { x: -15, z: -45, w: 10, d: 8 },
-      // New buildings for bigger map
-      { x: 80, z: 30, w: 10, d: 8 },
-      { x: -80, z: 30, w: 10, d: 8 },
-      { x: 80, z: -30, w: 10, d: 8 },
-      { x: -80, z: -30, w: 10, d: 8 },
-      { x: 30, z: 80, w: 10, d: 8 },
-      { x: -30, z: 80, w: 10, d: 8 },
-      { x: 30, z: -80, w: 10, d: 8 },
-      { x: -30, z: -80, w: 10, d: 8 },
-      { x: 100, z: 60, w: 10, d: 8 },
-      { x: -100, z: 60, w: 10, d: 8 },
-      { x: 100, z: -60, w: 10, d: 8 },
-      { x: -100, z: -60, w: 10, d: 8 },
-      { x: 60, z: 100, w: 10, d: 8 },
-      { x: -60, z: 100, w: 10, d: 8 },
-      { x: 60, z: -100, w: 10, d: 8 },
-      { x: -60, z: -100, w: 10, d: 8 },
-      { x: 120, z: 0, w: 10, d: 8 },
-      { x: -120, z: 0, w: 10, d: 8 },
-      { x: 0, z: 120, w: 10, d: 8 },
-      { x: 0, z: -120, w: 10, d: 8 },
-      // Synagogue
-      { x: 0, z: -40, w: 18, d: 15 },
-      // Western Wall
-      { x: 0, z: 48, w: 32, d: 4 },
-    ];
-
-    for (const building of buildings) {
-      const halfW = building.w / 2 + playerRadius;
-      const halfD = building.d / 2 + playerRadius;
-
-      if (
-        playerPos.x > building.x - halfW &&
-        playerPos.x < building.x + halfW &&
-        playerPos.z > building.z - halfD &&
-        playerPos.z < building.z + halfD
-      ) {
-        return true; // Collision detected
+    const collectRadius = 1.5 * this.powerUps.strength(this.playerId, 'magnet', this.serverClock.now()); // A magnet widens it
+
+    for (const id of this.pennyGrid.queryRadius(playerPos.x, playerPos.z, collectRadius)) {
+      const penny = this.pennies.get(id);
+      // One claim per coin until the server answers - it collects it or sends collect_rejected
+      if (penny && !this.pendingClaims.has(id) && playerPos.distanceTo(penny.position) < collectRadius) {
+        this.pendingClaims.add(id);
+        this.socket.emit('collect_penny', { pennyId: id });
       }
     }
-
-    return false;
   }
 
-  private checkPennyCollection(): void {
+  private checkPowerUpCollection(): void {
     const playerPos = this.camera.position;
     const collectRadius = 1.5;
 
-    this.pennies.forEach((penny, id) => {
-      const distance = playerPos.distanceTo(penny.position);
-      if (distance < collectRadius) {
-        this.socket.emit('collect_penny', { pennyId: id });
+    this.powerUps.pickups.forEach((pickup, id) => {
+      if (playerPos.distanceTo(pickup.position) < collectRadius) {
+        this.socket.emit('collect_power_up', { powerUpId: id });
       }
     });
   }
@@ -1131,6 +1582,13 @@ class CoinSnifferGame {
     });
   }
 
+  // Power-up visuals, and the HUD countdowns for our own effects
+  private updatePowerUps(): void {
+    const now = this.serverClock.now();
+    this.powerUps.update(now, this.otherPlayers);
+    this.ui.updatePowerUpHud(this.isSpectating ? [] : this.powerUps.activeEffects(this.playerId, now), now);
+  }
+
   private onWindowResize(): void {
     this.camera.aspect = window.innerWidth / window.innerHeight;
     this.camera.updateProjectionMatrix();
@@ -1148,7 +1606,10 @@ class CoinSnifferGame {
 
     if (this.isPlaying) {
       this.updatePlayer(delta || 0.016); // Fallback to 60fps if delta is 0
+      this.interpolateOtherPlayers(delta || 0.016);
+      this.updateSpectator(delta || 0.016); // After interpolation so follow cams track this frame's positions
       this.animatePennies();
+      this.updatePowerUps();
       this.renderer.render(this.scene, this.camera);
     }
   };
@@ -1156,5 +1617,6 @@ class CoinSnifferGame {
 
 // Start the game when page loads
 document.addEventListener('DOMContentLoaded', () => {
+  installMockWallet();
   new CoinSnifferGame();
 });
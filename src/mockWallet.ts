@@ -0,0 +1,85 @@
+// In-browser test wallet, enabled with ?mockWallet or VITE_MOCK_WALLET=true.
+// Holds a real ed25519 key (WebCrypto) so the server's signature check passes,
+// but it never signs transactions. The key is kept in localStorage so the
+// address stays the same between reloads.
+import { PublicKey } from '@solana/web3.js';
+import type { SolanaProvider, WalletEvent, WalletPublicKey } from './solanaWallet';
+
+const STORAGE_KEY = 'coinsniffer:mockWalletKey';
+
+type Listener = (publicKey?: WalletPublicKey | null) => void;
+
+class MockWallet implements SolanaProvider {
+    publicKey: WalletPublicKey | null = null;
+    isConnected: boolean = false;
+
+    private keyPair: CryptoKeyPair | null = null;
+    private listeners: Map<WalletEvent, Set<Listener>> = new Map();
+
+    async connect(): Promise<{ publicKey: WalletPublicKey }> {
+        if (!this.keyPair) {
+            this.keyPair = await loadOrCreateKeyPair();
+        }
+
+        const raw = new Uint8Array(await crypto.subtle.exportKey('raw', this.keyPair.publicKey));
+        const publicKey = new PublicKey(raw);
+        this.publicKey = publicKey;
+        this.isConnected = true;
+        this.emit('connect', publicKey);
+        return { publicKey };
+    }
+
+    async disconnect(): Promise<void> {
+        this.publicKey = null;
+        this.isConnected = false;
+        this.emit('disconnect');
+    }
+
+    async signMessage(message: Uint8Array): Promise<{ signature: Uint8Array }> {
+        if (!this.keyPair) throw new Error('Mock wallet not connected');
+        const signature = await crypto.subtle.sign('Ed25519', this.keyPair.privateKey, message as BufferSource);
+        return { signature: new Uint8Array(signature) };
+    }
+
+    on(event: WalletEvent, handler: Listener): void {
+        if (!this.listeners.has(event)) this.listeners.set(event, new Set());
+        this.listeners.get(event)!.add(handler);
+    }
+
+    off(event: WalletEvent, handler: Listener): void {
+        this.listeners.get(event)?.delete(handler);
+    }
+
+    private emit(event: WalletEvent, publicKey?: WalletPublicKey | null): void {
+        this.listeners.get(event)?.forEach(handler => handler(publicKey));
+    }
+}
+
+async function loadOrCreateKeyPair(): Promise<CryptoKeyPair> {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+        try {
+            const jwk = JSON.parse(stored) as JsonWebKey;
+            const privateKey = await crypto.subtle.importKey('jwk', jwk, 'Ed25519', true, ['sign']);
+            const publicKey = await crypto.subtle.importKey('jwk', { kty: jwk.kty, crv: jwk.crv, x: jwk.x }, 'Ed25519', true, ['verify']);
+            return { privateKey, publicKey };
+        } catch (error) {
+            console.warn('Stored mock wallet key is unusable, creating a new one', error);
+        }
+    }
+
+    const keyPair = await crypto.subtle.generateKey('Ed25519', true, ['sign', 'verify']) as CryptoKeyPair;
+    const jwk = await crypto.subtle.exportKey('jwk', keyPair.privateKey);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(jwk));
+    return keyPair;
+}
+
+// Register the mock wallet when asked for by URL or build flag
+export function installMockWallet(): void {
+    const requested = new URLSearchParams(window.location.search).has('mockWallet')
+        || import.meta.env.VITE_MOCK_WALLET === 'true';
+    if (!requested || window.coinSnifferMockWallet) return;
+
+    window.coinSnifferMockWallet = new MockWallet();
+    console.log('🧪 Mock wallet enabled');
+}
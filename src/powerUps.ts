@@ -0,0 +1,196 @@
+// Power-up pickups and running effects as the server reports them. The server decides
+// everything (spawns, pickups, durations); this keeps the meshes, mirrors effect
+// strengths so the local player's movement and collect radius match the server,
+// and draws the visible parts - auras on avatars and the radar's coin beacons.
+import * as THREE from 'three';
+import type { ActiveEffect, PowerUpInfo, PowerUpType } from '../shared/protocol';
+
+export const POWER_UP_COLORS: Record<PowerUpType, number> = {
+    magnet: 0xFF4D4D,
+    speed: 0x4DD2FF,
+    double_value: 0xFFA64D,
+    radar: 0x4DFF9E
+};
+
+const AURA_HEIGHTS: Record<PowerUpType, number> = {
+    magnet: 0.15,
+    speed: 0.35,
+    double_value: 0.55,
+    radar: 0.75
+};
+
+const pickupGeometry = new THREE.OctahedronGeometry(0.45);
+const pickupRingGeometry = new THREE.TorusGeometry(0.7, 0.04, 8, 32);
+const auraGeometry = new THREE.TorusGeometry(0.6, 0.05, 8, 32);
+const beaconGeometry = new THREE.CylinderGeometry(0.15, 0.15, 40, 8, 1, true);
+
+export class PowerUpManager {
+    private scene: THREE.Scene;
+    readonly pickups: Map<string, THREE.Group> = new Map();
+    private effects: Map<string, Map<PowerUpType, ActiveEffect>> = new Map(); // playerId -> type -> effect
+    private auras: Map<string, Map<PowerUpType, THREE.Mesh>> = new Map(); // playerId -> type -> ring on their avatar
+    private beacons: Map<string, THREE.Mesh> = new Map(); // pennyId -> radar beacon
+    private beaconsExpireAt: number = 0;
+
+    constructor(scene: THREE.Scene) {
+        this.scene = scene;
+    }
+
+    // Floating gem with a ring, coloured by type
+    spawn(powerUp: PowerUpInfo): void {
+        const color = POWER_UP_COLORS[powerUp.type];
+        const group = new THREE.Group();
+
+        const gem = new THREE.Mesh(pickupGeometry, new THREE.MeshStandardMaterial({
+            color,
+            emissive: color,
+            emissiveIntensity: 0.6,
+            metalness: 0.3,
+            roughness: 0.3
+        }));
+        gem.castShadow = true;
+        group.add(gem);
+
+        const ring = new THREE.Mesh(pickupRingGeometry, new THREE.MeshBasicMaterial({ color, transparent: true, opacity: 0.6 }));
+        ring.rotation.x = Math.PI / 2;
+        group.add(ring);
+
+        group.position.set(powerUp.position.x, powerUp.position.y + 1, powerUp.position.z);
+        group.userData.type = powerUp.type;
+        this.scene.add(group);
+        this.pickups.set(powerUp.id, group);
+    }
+
+    remove(id: string): void {
+        const group = this.pickups.get(id);
+        if (group) {
+            this.scene.remove(group);
+            this.pickups.delete(id);
+        }
+    }
+
+    applyEffect(effect: ActiveEffect): void {
+        let playerEffects = this.effects.get(effect.playerId);
+        if (!playerEffects) {
+            playerEffects = new Map();
+            this.effects.set(effect.playerId, playerEffects);
+        }
+        playerEffects.set(effect.type, effect);
+    }
+
+    // Strength of a running effect, or `fallback` if the player doesn't have it
+    strength(playerId: string, type: PowerUpType, now: number, fallback: number = 1): number {
+        const effect = this.effects.get(playerId)?.get(type);
+        return effect && effect.expiresAt > now ? effect.strength : fallback;
+    }
+
+    activeEffects(playerId: string, now: number): ActiveEffect[] {
+        const playerEffects = this.effects.get(playerId);
+        return playerEffects ? Array.from(playerEffects.values()).filter(e => e.expiresAt > now) : [];
+    }
+
+    // A reconnected player keeps their effects under their new socket id
+    renamePlayer(previousId: string, playerId: string): void {
+        const playerEffects = this.effects.get(previousId);
+        if (playerEffects) {
+            this.effects.delete(previousId);
+            this.effects.set(playerId, new Map(Array.from(playerEffects, ([type, e]) => [type, { ...e, playerId }])));
+        }
+        this.auras.delete(previousId); // The avatar is rebuilt, update() adds fresh rings
+    }
+
+    // Radar: a beam above each coin that was in range, visible through buildings
+    showRadar(pennyIds: string[], pennies: Map<string, THREE.Object3D>, expiresAt: number): void {
+        this.clearBeacons();
+        const material = new THREE.MeshBasicMaterial({
+            color: POWER_UP_COLORS.radar,
+            transparent: true,
+            opacity: 0.35,
+            depthTest: false,
+            depthWrite: false
+        });
+
+        for (const id of pennyIds) {
+            const penny = pennies.get(id);
+            if (!penny) continue;
+            const beacon = new THREE.Mesh(beaconGeometry, material);
+            beacon.position.set(penny.position.x, 20, penny.position.z);
+            beacon.renderOrder = 1;
+            this.scene.add(beacon);
+            this.beacons.set(id, beacon);
+        }
+        this.beaconsExpireAt = expiresAt;
+    }
+
+    // The coin was picked up - by anyone
+    removeBeacon(pennyId: string): void {
+        const beacon = this.beacons.get(pennyId);
+        if (beacon) {
+            this.scene.remove(beacon);
+            this.beacons.delete(pennyId);
+        }
+    }
+
+    private clearBeacons(): void {
+        this.beacons.forEach(beacon => this.scene.remove(beacon));
+        this.beacons.clear();
+    }
+
+    // Per frame: animate pickups, expire effects and beacons, and keep avatar auras in sync
+    update(now: number, avatars: Map<string, THREE.Group>): void {
+        const time = now * 0.001;
+
+        this.pickups.forEach(group => {
+            group.position.y = 1 + Math.sin(time * 2 + group.position.x) * 0.15;
+            group.rotation.y += 0.03;
+        });
+
+        if (this.beacons.size > 0 && now >= this.beaconsExpireAt) {
+            this.clearBeacons();
+        }
+
+        avatars.forEach((avatar, playerId) => {
+            let rings = this.auras.get(playerId);
+            if (!rings) {
+                rings = new Map();
+                this.auras.set(playerId, rings);
+            }
+
+            const active = new Set(this.activeEffects(playerId, now).map(e => e.type));
+            rings.forEach((ring, type) => {
+                if (!active.has(type)) {
+                    avatar.remove(ring);
+                    rings!.delete(type);
+                }
+            });
+            active.forEach(type => {
+                let ring = rings!.get(type);
+                if (!ring) {
+                    ring = new THREE.Mesh(auraGeometry, new THREE.MeshBasicMaterial({
+                        color: POWER_UP_COLORS[type],
+                        transparent: true,
+                        opacity: 0.8
+                    }));
+                    ring.rotation.x = Math.PI / 2;
+                    ring.position.y = AURA_HEIGHTS[type];
+                    avatar.add(ring);
+                    rings!.set(type, ring);
+                }
+                ring.scale.setScalar(1 + Math.sin(time * 6 + AURA_HEIGHTS[type] * 10) * 0.12);
+            });
+        });
+
+        // Avatars that left take their rings with them
+        this.auras.forEach((_, playerId) => {
+            if (!avatars.has(playerId)) this.auras.delete(playerId);
+        });
+    }
+
+    clear(): void {
+        this.pickups.forEach(group => this.scene.remove(group));
+        this.pickups.clear();
+        this.clearBeacons();
+        this.effects.clear();
+        this.auras.clear();
+    }
+}
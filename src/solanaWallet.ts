@@ -0,0 +1,88 @@
+// Injected browser wallet access (Phantom-style `window.solana` API).
+import type { Transaction } from '@solana/web3.js';
+
+export interface WalletPublicKey {
+    toString(): string;
+}
+
+export type WalletEvent = 'connect' | 'disconnect' | 'accountChanged';
+
+export interface SolanaProvider {
+    publicKey: WalletPublicKey | null;
+    isConnected?: boolean;
+    isPhantom?: boolean;
+    isSolflare?: boolean;
+    isBackpack?: boolean;
+    connect(options?: { onlyIfTrusted?: boolean }): Promise<{ publicKey: WalletPublicKey } | void>;
+    disconnect(): Promise<void>;
+    signMessage(message: Uint8Array, display?: 'utf8' | 'hex'): Promise<{ signature: Uint8Array }>;
+    // Buy-in entry fees - wallets implement one or both
+    signAndSendTransaction?(transaction: Transaction): Promise<{ signature: string }>;
+    signTransaction?(transaction: Transaction): Promise<Transaction>;
+    on?(event: WalletEvent, handler: (publicKey?: WalletPublicKey | null) => void): void;
+    off?(event: WalletEvent, handler: (publicKey?: WalletPublicKey | null) => void): void;
+}
+
+export type WalletId = 'phantom' | 'solflare' | 'backpack' | 'injected' | 'mock';
+
+export interface WalletOption {
+    id: WalletId;
+    name: string;
+    provider: SolanaProvider;
+}
+
+declare global {
+    interface Window {
+        solana?: SolanaProvider;
+        phantom?: { solana?: SolanaProvider };
+        solflare?: SolanaProvider;
+        backpack?: SolanaProvider & { solana?: SolanaProvider };
+        coinSnifferMockWallet?: SolanaProvider; // Set by mockWallet.ts for local testing
+    }
+}
+
+// Find every injected Solana wallet on the page, most specific first
+export function detectWallets(): WalletOption[] {
+    const options: WalletOption[] = [];
+    const add = (id: WalletId, name: string, provider: SolanaProvider | undefined) => {
+        if (provider && !options.some(o => o.provider === provider)) {
+            options.push({ id, name, provider });
+        }
+    };
+
+    add('phantom', 'Phantom', window.phantom?.solana ?? (window.solana?.isPhantom ? window.solana : undefined));
+    add('solflare', 'Solflare', window.solflare?.isSolflare ? window.solflare : undefined);
+    add('backpack', 'Backpack', window.backpack?.solana ?? (window.backpack?.isBackpack ? window.backpack : undefined));
+    add('injected', 'Solana Wallet', window.solana);
+    add('mock', 'Mock Wallet', window.coinSnifferMockWallet);
+
+    return options;
+}
+
+// Connect (prompting the user unless onlyIfTrusted) and return the wallet address
+export async function connectWallet(provider: SolanaProvider, onlyIfTrusted: boolean = false): Promise<string> {
+    if (provider.isConnected && provider.publicKey) {
+        return provider.publicKey.toString();
+    }
+
+    const result = await provider.connect(onlyIfTrusted ? { onlyIfTrusted } : undefined);
+    const publicKey = result?.publicKey ?? provider.publicKey;
+    if (!publicKey) {
+        throw new Error('Wallet did not return a public key');
+    }
+    return publicKey.toString();
+}
+
+// Sign the server's challenge and return the signature as base64 for join_lobby
+export async function signChallenge(provider: SolanaProvider, message: string): Promise<string> {
+    const { signature } = await provider.signMessage(new TextEncoder().encode(message), 'utf8');
+    return bytesToBase64(signature);
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+    let binary = '';
+    bytes.forEach(byte => {
+        binary += String.fromCharCode(byte);
+    });
+    return btoa(binary);
+}
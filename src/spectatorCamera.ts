@@ -0,0 +1,172 @@
+// Camera rig for spectators.
+// Free-fly uses the regular mouse look plus WASD, follow mode chases one player
+// (first- or third-person) and orbit circles the whole map.
+import * as THREE from 'three';
+
+export type SpectatorMode = 'free' | 'follow' | 'orbit';
+
+export interface SpectatorInput {
+    forward: number; // -1..1
+    right: number; // -1..1
+    fast: boolean;
+}
+
+const MODES: SpectatorMode[] = ['free', 'follow', 'orbit'];
+
+export class SpectatorCamera {
+    mode: SpectatorMode = 'free';
+    firstPerson: boolean = false;
+    targetId: string | null = null;
+
+    private camera: THREE.PerspectiveCamera;
+    private hiddenTarget: THREE.Object3D | null = null; // Avatar hidden while looking through its eyes
+    private orbitAngle: number = 0;
+
+    private flySpeed: number = 20;
+    private followDistance: number = 4;
+    private followHeight: number = 2.5;
+    private eyeHeight: number = 1.7;
+    private followSmoothing: number = 8; // Higher = tighter follow
+    private orbitRadius: number = 130;
+    private orbitHeight: number = 80;
+    private orbitSpeed: number = 0.08; // Radians per second
+
+    constructor(camera: THREE.PerspectiveCamera) {
+        this.camera = camera;
+    }
+
+    // Start from an overview above the map
+    reset(): void {
+        this.showHiddenTarget();
+        this.mode = 'free';
+        this.firstPerson = false;
+        this.targetId = null;
+        this.camera.position.set(0, 40, 60);
+        this.camera.lookAt(0, 0, 0);
+    }
+
+    cycleMode(playerIds: string[]): void {
+        this.mode = MODES[(MODES.indexOf(this.mode) + 1) % MODES.length];
+        if (this.mode === 'follow' && !this.targetId) {
+            this.cycleTarget(playerIds, 1);
+        }
+        if (this.mode !== 'follow') {
+            this.showHiddenTarget();
+        }
+    }
+
+    // Switch to the next/previous player and follow them
+    cycleTarget(playerIds: string[], step: 1 | -1): void {
+        if (playerIds.length === 0) {
+            this.targetId = null;
+            return;
+        }
+
+        const current = this.targetId ? playerIds.indexOf(this.targetId) : -1;
+        const next = current === -1
+            ? (step === 1 ? 0 : playerIds.length - 1)
+            : (current + step + playerIds.length) % playerIds.length;
+
+        this.showHiddenTarget();
+        this.targetId = playerIds[next];
+        this.mode = 'follow';
+    }
+
+    toggleFirstPerson(): void {
+        this.firstPerson = !this.firstPerson;
+        if (!this.firstPerson) {
+            this.showHiddenTarget();
+        }
+    }
+
+    // Mouse look only steers the camera in free-fly
+    allowsMouseLook(): boolean {
+        return this.mode === 'free';
+    }
+
+    update(delta: number, input: SpectatorInput, players: Map<string, THREE.Object3D>): void {
+        if (this.mode === 'follow') {
+            const target = this.targetId ? players.get(this.targetId) : undefined;
+            if (!target) {
+                // Followed player left - pick someone else or fall back to free-fly
+                this.showHiddenTarget();
+                this.targetId = null;
+                this.cycleTarget(Array.from(players.keys()), 1);
+                if (!this.targetId) this.mode = 'free';
+                return;
+            }
+            this.updateFollow(delta, target);
+        } else if (this.mode === 'orbit') {
+            this.updateOrbit(delta);
+        } else {
+            this.updateFree(delta, input);
+        }
+    }
+
+    // Short label for the spectator HUD
+    describe(wallets: Map<string, string>): string {
+        if (this.mode === 'orbit') return 'Overview';
+        if (this.mode === 'free') return 'Free camera';
+
+        const wallet = this.targetId ? wallets.get(this.targetId) || 'Unknown' : 'Unknown';
+        const name = wallet.slice(0, 4) + '...' + wallet.slice(-4);
+        return `Following ${name} (${this.firstPerson ? 'first person' : 'third person'})`;
+    }
+
+    private updateFree(delta: number, input: SpectatorInput): void {
+        const speed = this.flySpeed * (input.fast ? 3 : 1);
+
+        // Fly along the view direction, including pitch
+        const forward = new THREE.Vector3();
+        this.camera.getWorldDirection(forward);
+        const right = new THREE.Vector3().crossVectors(forward, this.camera.up).normalize();
+
+        this.camera.position.addScaledVector(forward, input.forward * speed * delta);
+        this.camera.position.addScaledVector(right, input.right * speed * delta);
+        this.camera.position.y = Math.max(0.5, this.camera.position.y);
+    }
+
+    private updateFollow(delta: number, target: THREE.Object3D): void {
+        const yaw = target.rotation.y;
+        const head = new THREE.Vector3(target.position.x, target.position.y + this.eyeHeight, target.position.z);
+
+        if (this.firstPerson) {
+            if (this.hiddenTarget !== target) {
+                this.showHiddenTarget();
+                target.visible = false;
+                this.hiddenTarget = target;
+            }
+            this.camera.position.copy(head);
+            this.camera.quaternion.setFromEuler(new THREE.Euler(0, yaw, 0, 'YXZ'));
+            return;
+        }
+
+        // Sit behind the player's view direction and ease towards it
+        const behind = new THREE.Vector3(Math.sin(yaw), 0, Math.cos(yaw)).multiplyScalar(this.followDistance);
+        const desired = new THREE.Vector3(
+            target.position.x + behind.x,
+            target.position.y + this.followHeight,
+            target.position.z + behind.z
+        );
+        const blend = 1 - Math.exp(-this.followSmoothing * delta);
+        this.camera.position.lerp(desired, blend);
+        this.camera.lookAt(head);
+    }
+
+    private updateOrbit(delta: number): void {
+        this.orbitAngle += this.orbitSpeed * delta;
+        this.camera.position.set(
+            Math.sin(this.orbitAngle) * this.orbitRadius,
+            this.orbitHeight,
+            Math.cos(this.orbitAngle) * this.orbitRadius
+        );
+        this.camera.lookAt(0, 0, 0);
+    }
+
+    private showHiddenTarget(): void {
+        if (this.hiddenTarget) {
+            this.hiddenTarget.visible = true;
+            this.hiddenTarget = null;
+        }
+    }
+}
@@ -1,3 +1,70 @@
+import type {
+    ActiveEffect,
+    AdmissionRefusal,
+    AdmissionRefusalCode,
+    BuyInInfo,
+    LobbyRewardInfo,
+    LobbyState,
+    LobbyType,
+    PowerUpType,
+    RankingEntry,
+    RecentMatchPayouts,
+    RewardAmount,
+    RewardResult,
+    ScoreEntry,
+    WinnerEntry
+} from '../shared/protocol';
+import type { WalletOption } from './solanaWallet';
+import type { WalletState } from './walletConnector';
+
+// Base units as a decimal string without float rounding, e.g. ("25000000", 9) -> "0.025"
+export function formatUnits(units: string | number, decimals: number): string {
+    const scale = 10n ** BigInt(decimals);
+    const value = BigInt(units);
+    const fraction = (value % scale).toString().padStart(decimals, '0').replace(/0+$/, '');
+    return fraction ? `${value / scale}.${fraction}` : `${value / scale}`;
+}
+
+// Lamports as a SOL string, e.g. 25000000 -> "0.025"
+export function formatSol(lamports: number): string {
+    return formatUnits(lamports, 9);
+}
+
+// Headline and what the player can do about it, per admission refusal
+const REFUSAL_TEXT: Record<AdmissionRefusalCode, { title: string; hint: string }> = {
+    denylisted: { title: '🚫 Wallet blocked', hint: 'Contact the server operator if you think this is a mistake.' },
+    not_allowlisted: { title: '🔒 Invite-only server', hint: 'Ask the server operator to add your wallet, or connect one that is on the list.' },
+    token_gated: { title: '🪙 Token-gated lobby', hint: 'Connect a wallet that holds it, or top this one up and try again.' },
+    gate_unavailable: { title: '⏳ Could not check your wallet', hint: 'The token check will be retried when you join again.' }
+};
+
+// "0.025 SOL + 150 BONK"
+function formatRewards(rewards: RewardAmount[]): string {
+    return rewards.map(r => `${formatUnits(r.units, r.decimals)} ${r.symbol}`).join(' + ');
+}
+
+function shortWallet(wallet: string): string {
+    return wallet.slice(0, 6) + '...' + wallet.slice(-4);
+}
+
+// "just now", "5m ago", "3h ago", "2d ago"
+function formatAgo(timestamp: number): string {
+    const minutes = Math.floor((Date.now() - timestamp) / 60000);
+    if (minutes < 1) return 'just now';
+    if (minutes < 60) return `${minutes}m ago`;
+    if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ago`;
+    return `${Math.floor(minutes / (24 * 60))}d ago`;
+}
+
+const PLACE_MEDALS = ['🥇', '🥈', '🥉'];
+
+const POWER_UP_LABELS: Record<PowerUpType, { icon: string; name: string }> = {
+    magnet: { icon: '🧲', name: 'Magnet' },
+    speed: { icon: '⚡', name: 'Speed' },
+    double_value: { icon: '✖️2', name: 'Double value' },
+    radar: { icon: '📡', name: 'Radar' }
+};
+
 export class UI {
     private lobbyScreen: HTMLElement | null;
     private gameScreen: HTMLElement | null;
@@ -48,7 +115,26 @@ export class UI {
         }
     }
 
-    updateLobby(lobbyState: any): void {
+    // Explain why the wallet was turned away (null hides the panel)
+    showAdmissionRefusal(refusal: AdmissionRefusal | null): void {
+        const el = document.getElementById('admission-refusal');
+        if (!el) return;
+
+        el.style.display = refusal ? 'block' : 'none';
+        el.innerHTML = '';
+        if (!refusal) return;
+
+        const text = REFUSAL_TEXT[refusal.code];
+        const title = document.createElement('strong');
+        title.textContent = text.title;
+        const reason = document.createElement('p');
+        reason.textContent = refusal.reason;
+        const hint = document.createElement('p');
+        hint.textContent = text.hint;
+        el.append(title, reason, hint);
+    }
+
+    updateLobby(lobbyState: LobbyState): void {
         // Update player count
         const countEl = document.getElementById('player-count');
         const maxEl = document.getElementById('max-players');
@@ -59,12 +145,133 @@ export class UI {
         const listEl = document.getElementById('lobby-players');
         if (listEl) {
             listEl.innerHTML = '';
-            lobbyState.players.forEach((player: any) => {
+            lobbyState.players.forEach(player => {
                 const li = document.createElement('li');
                 li.textContent = player.wallet;
                 listEl.appendChild(li);
             });
         }
+
+        // Buy-in lobbies show what's at stake
+        const buyInEl = document.getElementById('buy-in-info');
+        if (buyInEl) {
+            const buyIn = lobbyState.buyIn;
+            buyInEl.style.display = buyIn ? 'block' : 'none';
+            if (buyIn) {
+                buyInEl.textContent = `🎟️ Entry ${formatSol(buyIn.lamports)} SOL | 💰 Pot ${formatSol(buyIn.potLamports)} SOL`
+                    + ` | ${buyIn.houseCutPercent}% house cut | ${lobbyState.minPlayers}+ players or refund`;
+            }
+        }
+
+        this.renderRewardInfo(lobbyState.rewards);
+    }
+
+    // Prize pool, payout mode, split rules and the last paid winners
+    private renderRewardInfo(rewards: LobbyRewardInfo): void {
+        const el = document.getElementById('reward-info');
+        if (!el) return;
+
+        const pool = rewards.pools.length > 0 ? formatRewards(rewards.pools) : 'nothing yet';
+        const mode = rewards.payoutMode === 'live'
+            ? `⚡ Live payouts on ${rewards.cluster}`
+            : '🧪 Simulated payouts - nothing is actually sent';
+        const balance = rewards.rewardWalletBalance !== null
+            ? ` | Reward wallet ${rewards.rewardWalletBalance.toFixed(3)} SOL`
+            : '';
+
+        el.innerHTML = `
+            <div class="reward-info-pool">💰 Prize pool <strong>${pool}</strong></div>
+            <div class="reward-info-meta">
+                <span class="payout-mode ${rewards.payoutMode}">${mode}</span>${balance}
+            </div>
+            <div class="reward-info-meta">📊 Split: ${rewards.split.description}</div>
+            ${rewards.recentPayouts.length > 0 ? `
+                <h4>🏆 Recent winners</h4>
+                <ul class="recent-payouts">${rewards.recentPayouts.map(match => this.renderRecentMatch(match)).join('')}</ul>
+            ` : ''}
+        `;
+    }
+
+    private renderRecentMatch(match: RecentMatchPayouts): string {
+        // A place paid in two assets has two results - show it once
+        const places = new Map<number, { wallet: string; amounts: RewardAmount[]; paid: boolean }>();
+        for (const result of match.winners) {
+            const place = places.get(result.place) ?? { wallet: result.wallet, amounts: [], paid: true };
+            place.amounts.push(result);
+            place.paid = place.paid && result.success;
+            places.set(result.place, place);
+        }
+
+        const winners = Array.from(places.entries()).map(([place, winner]) =>
+            `<span class="recent-winner">${PLACE_MEDALS[place - 1] ?? `#${place}`} ${shortWallet(winner.wallet)} `
+            + `${formatRewards(winner.amounts)} ${winner.paid ? '✅' : '⏳'}</span>`
+        ).join('');
+
+        // Batched payouts share one transaction - link each transaction once
+        const txUrls = Array.from(new Set(match.winners.map(r => r.txUrl).filter((url): url is string => !!url)));
+        const links = txUrls.map(url => `<a href="${url}" target="_blank" class="reward-link">🔗</a>`).join(' ');
+
+        return `<li><small>${formatAgo(match.finishedAt)}</small> ${winners} ${links}</li>`;
+    }
+
+    // Free play / buy-in picker - hidden when the server has no buy-in lobby
+    renderLobbyTypes(buyIn: BuyInInfo | null, selected: LobbyType, onSelect: (lobbyType: LobbyType) => void): void {
+        const pickerEl = document.getElementById('lobby-type-picker');
+        if (!pickerEl) return;
+
+        pickerEl.style.display = buyIn ? 'flex' : 'none';
+        pickerEl.innerHTML = '';
+        if (!buyIn) return;
+
+        const options: { type: LobbyType; label: string }[] = [
+            { type: 'free', label: '🎮 Free Play' },
+            { type: 'buyin', label: `🎟️ Buy-in ${formatSol(buyIn.lamports)} SOL` }
+        ];
+        options.forEach(option => {
+            const btn = document.createElement('button');
+            btn.className = 'lobby-type-btn';
+            btn.classList.toggle('active', option.type === selected);
+            btn.textContent = option.label;
+            btn.addEventListener('click', () => onSelect(option.type));
+            pickerEl.appendChild(btn);
+        });
+    }
+
+    // Wallet connect panel - one button per detected wallet, or the connected account
+    renderWalletOptions(options: WalletOption[], onSelect: (option: WalletOption) => void): void {
+        const listEl = document.getElementById('wallet-options');
+        if (!listEl) return;
+
+        listEl.innerHTML = '';
+        if (options.length === 0) {
+            listEl.innerHTML = '<span class="wallet-none">No Solana wallet found - install Phantom, Solflare or Backpack</span>';
+            return;
+        }
+
+        options.forEach(option => {
+            const btn = document.createElement('button');
+            btn.className = 'wallet-option-btn';
+            btn.textContent = option.name;
+            btn.addEventListener('click', () => onSelect(option));
+            listEl.appendChild(btn);
+        });
+    }
+
+    updateWalletStatus(state: WalletState): void {
+        const optionsEl = document.getElementById('wallet-options');
+        const connectedEl = document.getElementById('wallet-connected');
+        const nameEl = document.getElementById('wallet-name');
+        const addressEl = document.getElementById('wallet-address');
+        const balanceEl = document.getElementById('wallet-balance');
+        const connected = state.wallet !== null && state.address !== null;
+
+        if (optionsEl) optionsEl.style.display = connected ? 'none' : '';
+        if (connectedEl) connectedEl.style.display = connected ? 'flex' : 'none';
+        if (!connected) return;
+
+        if (nameEl) nameEl.textContent = state.wallet!.name;
+        if (addressEl) addressEl.textContent = state.address!.slice(0, 6) + '...' + state.address!.slice(-4);
+        if (balanceEl) balanceEl.textContent = state.balance === null ? '… SOL' : `${state.balance.toFixed(4)} SOL`;
     }
 
     updateLobbyTimer(seconds: number): void {
@@ -94,6 +301,18 @@ export class UI {
         }
     }
 
+    // Floating text that rises and fades at a screen position, e.g. "+5" on a coin pickup
+    showScorePopup(text: string, x: number, y: number, color: string): void {
+        const popup = document.createElement('div');
+        popup.className = 'score-popup';
+        popup.textContent = text;
+        popup.style.left = `${x}px`;
+        popup.style.top = `${y}px`;
+        popup.style.color = color;
+        document.body.appendChild(popup);
+        popup.addEventListener('animationend', () => popup.remove());
+    }
+
     updateScore(score: number): void {
         const scoreEl = document.getElementById('hud-score');
         if (scoreEl) {
@@ -114,7 +333,17 @@ export class UI {
         }
     }
 
-    updateLeaderboard(scores: any[]): void {
+    // Distance to the closest coin (null when none are left)
+    updateNearestCoin(distance: number | null): void {
+        const nearestEl = document.getElementById('hud-nearest-coin');
+        const label = distance === null ? '-' : `${Math.round(distance)}m`;
+        // Called every frame - only touch the DOM when the label changes
+        if (nearestEl && nearestEl.textContent !== label) {
+            nearestEl.textContent = label;
+        }
+    }
+
+    updateLeaderboard(scores: ScoreEntry[]): void {
         const listEl = document.getElementById('live-scores');
         if (listEl) {
             listEl.innerHTML = '';
@@ -129,19 +358,67 @@ export class UI {
         }
     }
 
-    showResults(rankings: any[], winners: any[]): void {
+    showSpectatorHud(visible: boolean): void {
+        const hudEl = document.getElementById('spectator-hud');
+        const crosshairEl = document.getElementById('crosshair');
+        if (hudEl) hudEl.style.display = visible ? 'block' : 'none';
+        if (crosshairEl) crosshairEl.style.display = visible ? 'none' : '';
+    }
+
+    updateSpectatorHud(label: string): void {
+        const labelEl = document.getElementById('spectator-mode');
+        // Called every frame - only touch the DOM when the label changes
+        if (labelEl && labelEl.textContent !== label) {
+            labelEl.textContent = label;
+        }
+    }
+
+    // Icons and countdowns of our running power-ups. `now` is server time.
+    updatePowerUpHud(effects: ActiveEffect[], now: number): void {
+        const hudEl = document.getElementById('powerup-hud');
+        if (!hudEl) return;
+
+        const items = effects
+            .sort((a, b) => a.expiresAt - b.expiresAt)
+            .map(e => ({ ...POWER_UP_LABELS[e.type], type: e.type, seconds: Math.ceil((e.expiresAt - now) / 1000) }));
+        const key = items.map(i => `${i.type}:${i.seconds}`).join(',');
+
+        // Called every frame - only touch the DOM when a countdown ticks over
+        if (hudEl.dataset.key === key) return;
+        hudEl.dataset.key = key;
+        hudEl.innerHTML = items.map(i => `
+            <div class="powerup-item ${i.type}${i.seconds <= 3 ? ' ending' : ''}" title="${i.name}">
+                <span class="powerup-icon">${i.icon}</span>
+                <span class="powerup-time">${i.seconds}s</span>
+            </div>
+        `).join('');
+    }
+
+    showResults(rankings: RankingEntry[], winners: WinnerEntry[]): void {
         // Podium places
         const places = ['first', 'second', 'third'];
 
-        winners.forEach((winner, index) => {
-            const walletEl = document.getElementById(`${places[index]}-wallet`);
-            const scoreEl = document.getElementById(`${places[index]}-score`);
+        places.forEach((place, index) => {
+            const placeEl = document.querySelector(`#results-screen .podium-place.${place}`) as HTMLElement | null;
+            const walletEl = document.getElementById(`${place}-wallet`);
+            const scoreEl = document.getElementById(`${place}-score`);
+            const rewardEl = document.querySelector(`#results-screen .podium-place.${place} .place-reward`);
+            const winner = winners.find(w => w.place === index + 1);
+
+            // Hide places nobody was paid for
+            if (placeEl) {
+                placeEl.style.display = winner ? '' : 'none';
+            }
+            if (!winner) return;
 
             if (walletEl) {
                 walletEl.textContent = winner.walletAddress.slice(0, 6) + '...' + winner.walletAddress.slice(-4);
             }
             if (scoreEl) {
-                scoreEl.textContent = `${winner.score} 🪙`;
+                scoreEl.textContent = `${winner.score} pts`;
+            }
+            if (rewardEl) {
+                rewardEl.textContent = formatRewards(winner.rewards);
             }
         });
 
@@ -152,9 +429,15 @@ export class UI {
             rankings.forEach((player, index) => {
                 const li = document.createElement('li');
                 const medal = index === 0 ? '🥇' : index === 1 ? '🥈' : index === 2 ? '🥉' : '';
+                const winner = winners.find(w => w.id === player.id);
+                const rewardInfo = player.flagged
+                    ? ' (flagged - no reward)'
+                    : winner
+                        ? ` (${formatRewards(winner.rewards)})`
+                        : '';
                 li.innerHTML = `
           <span>${index + 1}. ${medal} ${player.walletAddress.slice(0, 6)}...${player.walletAddress.slice(-4)}</span>
-          <span>${player.score} 🪙</span>
+          <span>${player.score} pts · ${player.coins} 🪙${rewardInfo}</span>
         `;
                 rankingsEl.appendChild(li);
             });
@@ -197,16 +480,9 @@ export class UI {
         }
     }
 
-    // Show reward distribution results with Solscan links
-    showRewardResults(results: Array<{
-        place: number;
-        wallet: string;
-        amount: number;
-        success: boolean;
-        txUrl: string | null;
-        simulated: boolean;
-        error: string | null;
-    }>): void {
+    // Show reward distribution results with explorer links - one link for the whole
+    // payout when every winner was paid in a single batched transaction
+    showRewardResults(results: RewardResult[], batchTxUrl: string | null = null): void {
         // Create a modal/overlay to show reward results
         let overlay = document.getElementById('reward-overlay');
         if (!overlay) {
@@ -225,22 +501,27 @@ export class UI {
         for (const result of results) {
             const medal = result.place === 1 ? '🥇' : result.place === 2 ? '🥈' : '🥉';
             const walletShort = result.wallet.slice(0, 6) + '...' + result.wallet.slice(-4);
-            const statusIcon = result.success ? '✅' : '❌';
-            const statusText = result.simulated ? '(Simulated)' : result.success ? 'Sent!' : result.error || 'Failed';
+            const queued = result.status === 'pending' || result.status === 'sent';
+            const statusIcon = result.success ? '✅' : queued ? '⏳' : '❌';
+            const statusText = result.simulated ? '(Simulated)'
+                : result.success ? 'Sent!'
+                : queued ? 'Queued - will retry automatically'
+                : result.error || 'Failed';
 
             html += `
                 <div class="reward-item ${result.success ? 'success' : 'failed'}">
                     <div class="reward-place">${medal} #${result.place}</div>
                     <div class="reward-wallet">${walletShort}</div>
-                    <div class="reward-amount">${result.amount.toFixed(6)} SOL</div>
+                    <div class="reward-amount">${formatUnits(result.units, result.decimals)} ${result.symbol}</div>
                     <div class="reward-status">${statusIcon} ${statusText}</div>
-                    ${result.txUrl ? `<a href="${result.txUrl}" target="_blank" class="reward-link">🔗 View on Solscan</a>` : ''}
+                    ${result.txUrl && !batchTxUrl ? `<a href="${result.txUrl}" target="_blank" class="reward-link">🔗 View on Explorer</a>` : ''}
                 </div>
             `;
         }
 
         html += `
                 </div>
+                ${batchTxUrl ? `<a href="${batchTxUrl}" target="_blank" class="reward-link">🔗 View payout transaction on Explorer</a>` : ''}
                 <button class="reward-close-btn" onclick="document.getElementById('reward-overlay').style.display='none'">Close</button>
             </div>
         `;
@@ -284,60 +565,4 @@ export class UI {
         // Could update a voice participants list UI here
         console.log(`Peer ${peerId} ${muted ? 'muted' : 'unmuted'}`);
     }
-
-    // Update results to show proportional rewards
-    showResultsWithProportional(rankings: any[], winners: any[], totalTop3Coins: number): void {
-        // Podium places
-        const places = ['first', 'second', 'third'];
-
-        winners.forEach((winner, index) => {
-            const walletEl = document.getElementById(`${places[index]}-wallet`);
-            const scoreEl = document.getElementById(`${places[index]}-score`);
-            const rewardEl = document.querySelector(`#results-screen .podium-place.${places[index]} .place-reward`);
-
-            if (walletEl) {
-                walletEl.textContent = winner.walletAddress.slice(0, 6) + '...' + winner.walletAddress.slice(-4);
-            }
-            if (scoreEl) {
-                scoreEl.textContent = `${winner.score} 🪙`;
-            }
-            if (rewardEl) {
-                // Show proportional percentage
-                const percent = totalTop3Coins > 0 
-                    ? Math.round((winner.score / totalTop3Coins) * 100)
-                    : Math.round(100 / winners.length);
-                rewardEl.textContent = `${percent}% SOL`;
-            }
-        });
-
-        // Hide unused podium places if less than 3 winners
-        for (let i = winners.length; i < 3; i++) {
-            const placeEl = document.querySelector(`#results-screen .podium-place.${places[i]}`);
-            if (placeEl) {
-                (placeEl as HTMLElement).style.display = 'none';
-            }
-        }
-
-        // Full rankings
-        const rankingsEl = document.getElementById('final-rankings');
-        if (rankingsEl) {
-            rankingsEl.innerHTML = '';
-            rankings.forEach((player, index) => {
-                const li = document.createElement('li');
-                const medal = index === 0 ? '🥇' : index === 1 ? '🥈' : index === 2 ? '🥉' : '';
-                const isTop3 = index < 3;
-                const rewardInfo = isTop3 && totalTop3Coins > 0
-                    ? ` (${Math.round((player.score / totalTop3Coins) * 100)}% reward)`
-                    : '';
-                li.innerHTML = `
-          <span>${index + 1}. ${medal} ${player.walletAddress.slice(0, 6)}...${player.walletAddress.slice(-4)}</span>
-          <span>${player.score} 🪙${rewardInfo}</span>
-        `;
-                rankingsEl.appendChild(li);
-            });
-        }
-
-        // Next game countdown
-        this.startNextGameCountdown(10);
-    }
 }
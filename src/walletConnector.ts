@@ -0,0 +1,181 @@
+// Tracks the connected browser wallet: address, SOL balance and provider events.
+// The last wallet used is remembered and silently reconnected on the next visit.
+import { Connection, LAMPORTS_PER_SOL, PublicKey, SystemProgram, Transaction, clusterApiUrl } from '@solana/web3.js';
+import { connectWallet, detectWallets } from './solanaWallet';
+import type { SolanaProvider, WalletId, WalletOption, WalletPublicKey } from './solanaWallet';
+
+const LAST_WALLET_KEY = 'coinsniffer:lastWallet';
+
+// Balance RPC - should point at the same cluster as the server's SOLANA_CLUSTER
+function getRpcUrl(): string {
+    if (import.meta.env.VITE_SOLANA_RPC_URL) return import.meta.env.VITE_SOLANA_RPC_URL;
+    switch (import.meta.env.VITE_SOLANA_CLUSTER) {
+        case 'devnet':
+            return clusterApiUrl('devnet');
+        case 'localnet':
+            return 'http://127.0.0.1:8899';
+        default:
+            return clusterApiUrl('mainnet-beta');
+    }
+}
+
+export interface WalletState {
+    wallet: WalletOption | null;
+    address: string | null;
+    balance: number | null; // SOL, null while loading or unavailable
+}
+
+export class WalletConnector {
+    private connection: Connection;
+    private wallet: WalletOption | null = null;
+    private address: string | null = null;
+    private balance: number | null = null;
+    private onChange: (state: WalletState) => void;
+
+    constructor(onChange: (state: WalletState) => void) {
+        this.onChange = onChange;
+        this.connection = new Connection(getRpcUrl(), 'confirmed');
+    }
+
+    getOptions(): WalletOption[] {
+        return detectWallets();
+    }
+
+    get provider(): SolanaProvider | null {
+        return this.wallet?.provider ?? null;
+    }
+
+    get connectedAddress(): string | null {
+        return this.address;
+    }
+
+    // Reconnect to the wallet used last time without showing a prompt
+    async restore(): Promise<void> {
+        const lastId = localStorage.getItem(LAST_WALLET_KEY) as WalletId | null;
+        const option = lastId ? this.getOptions().find(o => o.id === lastId) : undefined;
+        if (!option) return;
+
+        try {
+            await this.connect(option, true);
+        } catch {
+            // Not trusted any more - the user has to click connect again
+        }
+    }
+
+    async connect(option: WalletOption, onlyIfTrusted: boolean = false): Promise<string> {
+        if (this.wallet && this.wallet !== option) {
+            await this.disconnect();
+        }
+
+        const address = await connectWallet(option.provider, onlyIfTrusted);
+        if (this.wallet !== option) {
+            option.provider.on?.('accountChanged', this.handleAccountChanged);
+            option.provider.on?.('disconnect', this.handleDisconnect);
+        }
+
+        this.wallet = option;
+        localStorage.setItem(LAST_WALLET_KEY, option.id);
+        this.setAddress(address);
+        console.log(`👛 Connected ${option.name}: ${address}`);
+        return address;
+    }
+
+    async disconnect(): Promise<void> {
+        const wallet = this.wallet;
+        if (!wallet) return;
+
+        this.detach();
+        localStorage.removeItem(LAST_WALLET_KEY);
+        try {
+            await wallet.provider.disconnect();
+        } catch (error) {
+            console.warn('Wallet disconnect failed:', error);
+        }
+    }
+
+    async refreshBalance(): Promise<void> {
+        const address = this.address;
+        if (!address) return;
+
+        try {
+            const lamports = await this.connection.getBalance(new PublicKey(address));
+            // Ignore the result if the account changed while we were waiting
+            if (address === this.address) {
+                this.balance = lamports / LAMPORTS_PER_SOL;
+                this.emitChange();
+            }
+        } catch (error) {
+            console.warn('Could not fetch wallet balance:', error);
+        }
+    }
+
+    // Pay a buy-in entry fee to a match escrow and wait for it to confirm.
+    // Returns the transaction signature the server checks before admitting us.
+    async payEntryFee(escrowAddress: string, lamports: number): Promise<string> {
+        const provider = this.provider;
+        const address = this.address;
+        if (!provider || !address) {
+            throw new Error('No wallet connected');
+        }
+
+        const from = new PublicKey(address);
+        const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('confirmed');
+        const transaction = new Transaction({ feePayer: from, blockhash, lastValidBlockHeight }).add(
+            SystemProgram.transfer({ fromPubkey: from, toPubkey: new PublicKey(escrowAddress), lamports })
+        );
+
+        let signature: string;
+        if (provider.signAndSendTransaction) {
+            ({ signature } = await provider.signAndSendTransaction(transaction));
+        } else if (provider.signTransaction) {
+            const signed = await provider.signTransaction(transaction);
+            signature = await this.connection.sendRawTransaction(signed.serialize());
+        } else {
+            throw new Error('This wallet cannot send transactions');
+        }
+
+        const confirmation = await this.connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed');
+        if (confirmation.value.err) {
+            throw new Error('Entry fee transaction failed');
+        }
+
+        this.refreshBalance();
+        return signature;
+    }
+
+    // User switched accounts inside the wallet extension
+    private handleAccountChanged = (publicKey?: WalletPublicKey | null): void => {
+        if (publicKey) {
+            console.log(`👛 Wallet account changed: ${publicKey.toString()}`);
+            this.setAddress(publicKey.toString());
+        } else {
+            // Phantom sends null when the new account hasn't approved this site yet
+            this.detach();
+        }
+    };
+
+    private handleDisconnect = (): void => {
+        console.log('👛 Wallet disconnected');
+        this.detach();
+    };
+
+    private setAddress(address: string): void {
+        this.address = address;
+        this.balance = null;
+        this.emitChange();
+        this.refreshBalance();
+    }
+
+    private detach(): void {
+        this.wallet?.provider.off?.('accountChanged', this.handleAccountChanged);
+        this.wallet?.provider.off?.('disconnect', this.handleDisconnect);
+        this.wallet = null;
+        this.address = null;
+        this.balance = null;
+        this.emitChange();
+    }
+
+    private emitChange(): void {
+        this.onChange({ wallet: this.wallet, address: this.address, balance: this.balance });
+    }
+}
@@ -1,33 +1,82 @@
 import * as THREE from 'three';
+import { SpatialGrid } from '../server/spatialGrid.mjs';
+import { colliderBounds, createRandom, generateLayout, layoutColliders } from '../server/worldLayout.mjs';
+import type { Collider, GameMap, LayoutHouse, LayoutProp } from '../server/worldLayout.mjs';
+import type { DoorState } from '../shared/protocol';
 
 export class World {
     private scene: THREE.Scene;
-    public doors: THREE.Mesh[] = []; // Public so main can access for interaction
+    private root: THREE.Group = new THREE.Group(); // Everything built for the current map and seed
+    private map: GameMap | null = null;
+    private seed: number | null = null;
+    private random: () => number = Math.random; // Seeded per build - decoration only, the layout has its own stream
+    public doors: THREE.Mesh[] = []; // Public so main can access for interaction - userData.doorId is shared with the server
     public doorStates: Map<THREE.Mesh, boolean> = new Map(); // Door open states
+    public colliders: Collider[] = []; // Everything solid, from the layout - see collision.ts
+    private colliderGrid: SpatialGrid<number> = new SpatialGrid(); // Indexes into colliders
+    public bounds: number = 0; // Players stay within +-bounds on x and z, from the map
 
     constructor(scene: THREE.Scene) {
         this.scene = scene;
     }
 
-    build(): void {
-        this.createGround();
-        this.createStreets();
-        this.createIsraeliBuildings();
-        this.createSynagogue();
-        this.createMarketStalls();
-        this.createTrashCans();
-        this.createProps();
-        this.createPalmTrees();
-        this.createOliveTrees();
-        this.createWesternWall();
-        this.createFountain();
-        this.createCamels();
-        this.createFlags();
+    // Build the town from the match's map and seed (from game_start) - identical on every
+    // client and matching the layout the server places coins in. Same map and seed again
+    // is a no-op.
+    load(map: GameMap, seed: number): void {
+        if (this.map?.name === map.name && this.seed === seed) return;
+        this.clear();
+        this.map = map;
+        this.seed = seed;
+        this.random = createRandom(seed + 1);
+        this.bounds = map.bounds;
+        this.colliderGrid = new SpatialGrid({ size: map.size });
+
+        const layout = generateLayout(map, seed);
+        const props = (type: LayoutProp['type']) => layout.props.filter(prop => prop.type === type);
+        this.createGround(map.size);
+        this.createStreets(map.size);
+        this.createIsraeliBuildings(layout.houses);
+        props('synagogue').forEach(prop => this.createSynagogue(prop));
+        this.createMarketStalls(props('stall'));
+        this.createTrashCans(props('trashCan'));
+        this.createProps(props('bench'), props('pot'), props('lamp'));
+        this.createPalmTrees(props('palm'));
+        this.createOliveTrees(props('olive'));
+        props('westernWall').forEach(prop => this.createWesternWall(prop));
+        props('fountain').forEach(prop => this.createFountain(prop));
+        this.createCamels(props('camel'));
+        this.createFlags(props('flag'));
+
+        layoutColliders(layout).forEach(collider => this.addCollider(collider));
+        this.scene.add(this.root);
     }
 
-    private createGround(): void {
-        // Sandy/desert ground typical of Israel - BIGGER MAP for 20-25 players
-        const mapSize = 400; // Doubled from 200
+    // Put a prefab where the map says
+    private place(object: THREE.Object3D, prop: LayoutProp): void {
+        object.position.set(prop.x, 0, prop.z);
+        object.rotation.y = prop.rotation;
+        object.scale.setScalar(prop.scale);
+        this.root.add(object);
+    }
+
+    // Drop the previous match's town
+    private clear(): void {
+        this.scene.remove(this.root);
+        this.root.traverse(object => {
+            if (object instanceof THREE.Mesh) {
+                object.geometry.dispose();
+            }
+        });
+        this.root = new THREE.Group();
+        this.doors = [];
+        this.doorStates.clear();
+        this.colliders = [];
+        this.colliderGrid.clear();
+    }
+
+    private createGround(mapSize: number): void {
+        // Sandy/desert ground typical of Israel
         const groundGeometry = new THREE.PlaneGeometry(mapSize, mapSize, 100, 100);
         const groundMaterial = new THREE.MeshStandardMaterial({
             color: 0xD2B48C,
@@ -36,49 +85,49 @@ export class World {
         const ground = new THREE.Mesh(groundGeometry, groundMaterial);
         ground.rotation.x = -Math.PI / 2;
         ground.receiveShadow = true;
-        this.scene.add(ground);
+        this.root.add(ground);
 
         // Add more rocky patches for bigger map
         for (let i = 0; i < 80; i++) {
-            const rockGeometry = new THREE.DodecahedronGeometry(0.2 + Math.random() * 0.4, 0);
+            const rockGeometry = new THREE.DodecahedronGeometry(0.2 + this.random() * 0.4, 0);
             const rockMaterial = new THREE.MeshStandardMaterial({
-                color: Math.random() > 0.5 ? 0xA0826D : 0x8B7355,
+                color: this.random() > 0.5 ? 0xA0826D : 0x8B7355,
                 roughness: 0.9
             });
             const rock = new THREE.Mesh(rockGeometry, rockMaterial);
             rock.position.set(
-                (Math.random() - 0.5) * (mapSize - 20),
+                (this.random() - 0.5) * (mapSize - 20),
                 0.15,
-                (Math.random() - 0.5) * (mapSize - 20)
+                (this.random() - 0.5) * (mapSize - 20)
             );
             rock.scale.y = 0.5;
             rock.receiveShadow = true;
             rock.castShadow = true;
-            this.scene.add(rock);
+            this.root.add(rock);
         }
 
         // Add more sand dunes for bigger map
         for (let i = 0; i < 16; i++) {
-            const duneGeometry = new THREE.SphereGeometry(3 + Math.random() * 4, 16, 8, 0, Math.PI * 2, 0, Math.PI / 2);
+            const duneGeometry = new THREE.SphereGeometry(3 + this.random() * 4, 16, 8, 0, Math.PI * 2, 0, Math.PI / 2);
             const duneMaterial = new THREE.MeshStandardMaterial({
                 color: 0xC4A574,
                 roughness: 1
             });
             const dune = new THREE.Mesh(duneGeometry, duneMaterial);
             const angle = (i / 16) * Math.PI * 2;
-            const radius = 100 + Math.random() * 60;
+            const radius = mapSize * (0.25 + this.random() * 0.15);
             dune.position.set(
-                Math.cos(angle) * radius + (Math.random() - 0.5) * 30,
+                Math.cos(angle) * radius + (this.random() - 0.5) * 30,
                 0,
-                Math.sin(angle) * radius + (Math.random() - 0.5) * 30
+                Math.sin(angle) * radius + (this.random() - 0.5) * 30
             );
             dune.scale.y = 0.3;
             dune.receiveShadow = true;
-            this.scene.add(dune);
+            this.root.add(dune);
         }
     }
 
-    private createStreets(): void {
+    private createStreets(mapSize: number): void {
         // Cobblestone streets - typical of Jerusalem - BIGGER for larger map
         const streetMaterial = new THREE.MeshStandardMaterial({
             color: 0x8B8378,
@@ -87,91 +136,51 @@ export class World {
 
         // Main street (longer for bigger map)
         const street1 = new THREE.Mesh(
-            new THREE.PlaneGeometry(400, 10),
+            new THREE.PlaneGeometry(mapSize, 10),
             streetMaterial
         );
         street1.rotation.x = -Math.PI / 2;
         street1.position.y = 0.02;
         street1.receiveShadow = true;
-        this.scene.add(street1);
+        this.root.add(street1);
 
         // Cross street (longer for bigger map)
         const street2 = new THREE.Mesh(
-            new THREE.PlaneGeometry(10, 400),
+            new THREE.PlaneGeometry(10, mapSize),
             streetMaterial
         );
         street2.rotation.x = -Math.PI / 2;
         street2.position.y = 0.02;
         street2.receiveShadow = true;
-        this.scene.add(street2);
+        this.root.add(street2);
 
         // Add cobblestone pattern texture effect (extended for bigger streets)
-        for (let i = -195; i < 196; i += 2) {
+        for (let i = -mapSize / 2 + 5; i < mapSize / 2 - 4; i += 2) {
             for (let j = -4; j < 5; j += 2) {
-                if (Math.random() > 0.7) {
+                if (this.random() > 0.7) {
                     const stone = new THREE.Mesh(
                         new THREE.BoxGeometry(1.8, 0.02, 1.8),
                         new THREE.MeshStandardMaterial({
-                            color: Math.random() > 0.5 ? 0x9B938B : 0x7B736B,
+                            color: this.random() > 0.5 ? 0x9B938B : 0x7B736B,
                             roughness: 0.9
                         })
                     );
-                    stone.position.set(i + Math.random() * 0.3, 0.03, j + Math.random() * 0.3);
+                    stone.position.set(i + this.random() * 0.3, 0.03, j + this.random() * 0.3);
                     stone.receiveShadow = true;
-                    this.scene.add(stone);
+                    this.root.add(stone);
                 }
             }
         }
     }
 
-    private createIsraeliBuildings(): void {
-        // More buildings spread across the bigger map
-        const buildingPositions = [
-            // Original positions
-            { x: 30, z: 30 },
-            { x: -30, z: 30 },
-            { x: 30, z: -30 },
-            { x: -30, z: -30 },
-            { x: 45, z: 15 },
-            { x: -45, z: 15 },
-            { x: 45, z: -15 },
-            { x: -45, z: -15 },
-            { x: 15, z: 45 },
-            { x: -15, z: 45 },
-            { x: 15, z: -45 },
-            { x: -15, z: -45 },
-            // New buildings for bigger map
-            { x: 80, z: 30 },
-            { x: -80, z: 30 },
-            { x: 80, z: -30 },
-            { x: -80, z: -30 },
-            { x: 30, z: 80 },
-            { x: -30, z: 80 },
-            { x: 30, z: -80 },
-            { x: -30, z: -80 },
-            { x: 100, z: 60 },
-            { x: -100, z: 60 },
-            { x: 100, z: -60 },
-            { x: -100, z: -60 },
-            { x: 60, z: 100 },
-            { x: -60, z: 100 },
-            { x: 60, z: -100 },
-            { x: -60, z: -100 },
-            // Even more outer buildings
-            { x: 120, z: 0 },
-            { x: -120, z: 0 },
-            { x: 0, z: 120 },
-            { x: 0, z: -120 },
-        ];
+    private createIsraeliBuildings(houses: LayoutHouse[]): void {
 
         const stoneColors = [0xF5DEB3, 0xE8D4A8, 0xDCC9A3, 0xCFBF9E];
 
-        buildingPositions.forEach((pos, index) => {
+        houses.forEach((pos, index) => {
             const buildingGroup = new THREE.Group();
 
-            const width = 8 + Math.random() * 2;
-            const height = 5 + Math.random() * 3;
-            const depth = 6 + Math.random() * 2;
+            const { width, height, depth } = pos;
             const color = stoneColors[index % stoneColors.length];
 
             // Main building
@@ -217,6 +226,7 @@ export class World {
             );
             door.position.set(0, 1.3, depth / 2 + 0.15);
             door.userData.isDoor = true;
+            door.userData.doorId = `door_${index}`; // Same as layout.doors
             door.userData.buildingPos = pos;
             buildingGroup.add(door);
             this.doors.push(door);
@@ -325,7 +335,8 @@ export class World {
             }
 
             buildingGroup.position.set(pos.x, 0, pos.z);
-            this.scene.add(buildingGroup);
+            buildingGroup.rotation.y = pos.rotation;
+            this.root.add(buildingGroup);
         });
     }
 
@@ -357,7 +368,7 @@ export class World {
         return group;
     }
 
-    private createSynagogue(): void {
+    private createSynagogue(pos: LayoutProp): void {
         const synagogue = new THREE.Group();
 
         // Main building
@@ -443,8 +454,7 @@ export class World {
             synagogue.add(window);
         });
 
-        synagogue.position.set(0, 0, -40);
-        this.scene.add(synagogue);
+        this.place(synagogue, pos);
     }
 
     private createMenorah(): THREE.Group {
@@ -510,15 +520,7 @@ export class World {
         return menorah;
     }
 
-    private createMarketStalls(): void {
-        const stallPositions = [
-            { x: 20, z: 8, rot: 0 },
-            { x: -20, z: 8, rot: Math.PI },
-            { x: 8, z: 20, rot: Math.PI / 2 },
-            { x: -8, z: 20, rot: -Math.PI / 2 },
-            { x: 25, z: -8, rot: 0 },
-            { x: -25, z: -8, rot: Math.PI }
-        ];
+    private createMarketStalls(stallPositions: LayoutProp[]): void {
 
         const canopyColors = [0xFF0000, 0x0038B8, 0xFFFFFF, 0x228B22, 0xFFA500];
 
@@ -592,9 +594,9 @@ export class World {
                     })
                 );
                 good.position.set(
-                    (Math.random() - 0.5) * 2.5,
+                    (this.random() - 0.5) * 2.5,
                     1.15 + (type === 'cone' ? 0.075 : 0.1),
-                    (Math.random() - 0.5) * 1.5
+                    (this.random() - 0.5) * 1.5
                 );
                 stall.add(good);
             }
@@ -607,20 +609,11 @@ export class World {
             sign.position.set(0, 2.8, 0);
             stall.add(sign);
 
-            stall.position.set(pos.x, 0, pos.z);
-            stall.rotation.y = pos.rot;
-            this.scene.add(stall);
+            this.place(stall, pos);
         });
     }
 
-    private createTrashCans(): void {
-        const trashPositions = [
-            { x: 12, z: 8 }, { x: -12, z: 8 },
-            { x: 12, z: -8 }, { x: -12, z: -8 },
-            { x: 8, z: 12 }, { x: -8, z: 12 },
-            { x: 35, z: 8 }, { x: -35, z: 8 },
-            { x: 8, z: 35 }, { x: -8, z: 35 }
-        ];
+    private createTrashCans(trashPositions: LayoutProp[]): void {
 
         trashPositions.forEach(pos => {
             const trash = new THREE.Group();
@@ -644,42 +637,38 @@ export class World {
             trash.add(lid);
 
             // Some trash spilling out
-            if (Math.random() > 0.5) {
+            if (this.random() > 0.5) {
                 for (let t = 0; t < 3; t++) {
                     const paper = new THREE.Mesh(
                         new THREE.BoxGeometry(0.1, 0.1, 0.01),
                         new THREE.MeshStandardMaterial({ color: 0xFFFFE0 })
                     );
                     paper.position.set(
-                        0.5 + Math.random() * 0.3,
+                        0.5 + this.random() * 0.3,
                         0.1,
-                        Math.random() * 0.3 - 0.15
+                        this.random() * 0.3 - 0.15
                     );
-                    paper.rotation.set(Math.random(), Math.random(), Math.random());
+                    paper.rotation.set(this.random(), this.random(), this.random());
                     trash.add(paper);
                 }
             }
 
-            trash.position.set(pos.x, 0, pos.z);
-            this.scene.add(trash);
+            this.place(trash, pos);
         });
     }
 
-    private createProps(): void {
+    private createProps(benchPositions: LayoutProp[], potPositions: LayoutProp[], lampPositions: LayoutProp[]): void {
         // Stone benches
-        const benchPositions = [
-            { x: 18, z: 6 }, { x: -18, z: 6 },
-            { x: 6, z: 18 }, { x: -6, z: -18 }
-        ];
-
         benchPositions.forEach(pos => {
+            const benchGroup = new THREE.Group();
+
             const bench = new THREE.Mesh(
                 new THREE.BoxGeometry(2.5, 0.5, 0.8),
                 new THREE.MeshStandardMaterial({ color: 0xD2B48C, roughness: 0.9 })
             );
-            bench.position.set(pos.x, 0.25, pos.z);
+            bench.position.y = 0.25;
             bench.castShadow = true;
-            this.scene.add(bench);
+            benchGroup.add(bench);
 
             // Bench legs
             [-0.9, 0.9].forEach(offsetX => {
@@ -687,19 +676,14 @@ export class World {
                     new THREE.BoxGeometry(0.2, 0.5, 0.8),
                     new THREE.MeshStandardMaterial({ color: 0xC4A98C })
                 );
-                leg.position.set(pos.x + offsetX, 0.25, pos.z);
-                this.scene.add(leg);
+                leg.position.set(offsetX, 0.25, 0);
+                benchGroup.add(leg);
             });
+
+            this.place(benchGroup, pos);
         });
 
         // Clay pots with plants
-        const potPositions = [
-            { x: 28, z: 28 }, { x: -28, z: 28 },
-            { x: 28, z: -28 }, { x: -28, z: -28 },
-            { x: 40, z: 10 }, { x: -40, z: 10 },
-            { x: 10, z: 40 }, { x: -10, z: 40 }
-        ];
-
         potPositions.forEach(pos => {
             const potGroup = new THREE.Group();
 
@@ -727,17 +711,10 @@ export class World {
             plant.scale.y = 0.8;
             potGroup.add(plant);
 
-            potGroup.position.set(pos.x, 0, pos.z);
-            this.scene.add(potGroup);
+            this.place(potGroup, pos);
         });
 
         // Street lamps
-        const lampPositions = [
-            { x: 7, z: 15 }, { x: -7, z: 15 },
-            { x: 7, z: -15 }, { x: -7, z: -15 },
-            { x: 15, z: 7 }, { x: -15, z: 7 },
-            { x: 15, z: -7 }, { x: -15, z: -7 }
-        ];
 
         const metalMaterial = new THREE.MeshStandardMaterial({
             color: 0x2F1F0F,
@@ -784,24 +761,14 @@ export class World {
             light.position.y = 4;
             lampGroup.add(light);
 
-            lampGroup.position.set(pos.x, 0, pos.z);
-            this.scene.add(lampGroup);
+            this.place(lampGroup, pos);
         });
     }
 
-    private createPalmTrees(): void {
-        const palmPositions = [
-            { x: 40, z: 40 }, { x: -40, z: 40 },
-            { x: 40, z: -40 }, { x: -40, z: -40 },
-            { x: 50, z: 0 }, { x: -50, z: 0 },
-            { x: 0, z: 50 }, { x: 0, z: -50 },
-            { x: 55, z: 25 }, { x: -55, z: 25 },
-            { x: 55, z: -25 }, { x: -55, z: -25 }
-        ];
+    private createPalmTrees(palmPositions: LayoutProp[]): void {
 
         palmPositions.forEach(pos => {
             const palm = new THREE.Group();
-            const scale = 0.9 + Math.random() * 0.3;
 
             // Trunk
             const trunkSegments = 8;
@@ -860,23 +827,15 @@ export class World {
                 palm.add(frondGroup);
             }
 
-            palm.position.set(pos.x, 0, pos.z);
-            palm.scale.setScalar(scale);
-            this.scene.add(palm);
+            this.place(palm, pos);
         });
     }
 
-    private createOliveTrees(): void {
-        const olivePositions = [
-            { x: 35, z: 20 }, { x: -35, z: 20 },
-            { x: 35, z: -20 }, { x: -35, z: -20 },
-            { x: 20, z: 35 }, { x: -20, z: 35 },
-            { x: 20, z: -35 }, { x: -20, z: -35 }
-        ];
+    private createOliveTrees(olivePositions: LayoutProp[]): void {
 
         olivePositions.forEach(pos => {
             const tree = new THREE.Group();
-            const scale = 0.8 + Math.random() * 0.4;
+            const { scale } = pos;
 
             // Gnarled trunk
             const trunk = new THREE.Mesh(
@@ -884,7 +843,7 @@ export class World {
                 new THREE.MeshStandardMaterial({ color: 0x5D4E37, roughness: 0.95 })
             );
             trunk.position.y = 1.25 * scale;
-            trunk.rotation.z = (Math.random() - 0.5) * 0.2;
+            trunk.rotation.z = (this.random() - 0.5) * 0.2;
             trunk.castShadow = true;
             tree.add(trunk);
 
@@ -906,12 +865,14 @@ export class World {
                 tree.add(foliage);
             });
 
+            // Scale is built into the tree (the trunk only gets taller), so no place()
             tree.position.set(pos.x, 0, pos.z);
-            this.scene.add(tree);
+            tree.rotation.y = pos.rotation;
+            this.root.add(tree);
         });
     }
 
-    private createWesternWall(): void {
+    private createWesternWall(pos: LayoutProp): void {
         const wall = new THREE.Group();
 
         // Main wall structure
@@ -956,11 +917,11 @@ export class World {
                 new THREE.MeshStandardMaterial({ color: 0xFFFFF0 })
             );
             note.position.set(
-                (Math.random() - 0.5) * 28,
-                Math.random() * 10 + 1,
+                (this.random() - 0.5) * 28,
+                this.random() * 10 + 1,
                 1.25
             );
-            note.rotation.z = (Math.random() - 0.5) * 0.5;
+            note.rotation.z = (this.random() - 0.5) * 0.5;
             wall.add(note);
         }
 
@@ -974,12 +935,10 @@ export class World {
             wall.add(stand);
         });
 
-        wall.position.set(0, 0, 50);
-        wall.rotation.y = Math.PI;
-        this.scene.add(wall);
+        this.place(wall, pos);
     }
 
-    private createFountain(): void {
+    private createFountain(pos: LayoutProp): void {
         const fountain = new THREE.Group();
 
         // Base
@@ -1027,15 +986,10 @@ export class World {
         topBowl.position.y = 2.7;
         fountain.add(topBowl);
 
-        fountain.position.set(0, 0, 0);
-        this.scene.add(fountain);
+        this.place(fountain, pos);
     }
 
-    private createCamels(): void {
-        const camelPositions = [
-            { x: 55, z: 35, rot: -1 },
-            { x: -55, z: -35, rot: 2 }
-        ];
+    private createCamels(camelPositions: LayoutProp[]): void {
 
         camelPositions.forEach(pos => {
             const camel = new THREE.Group();
@@ -1102,20 +1056,12 @@ export class World {
             blanket.position.set(-0.1, 2.5, 0);
             camel.add(blanket);
 
-            camel.position.set(pos.x, 0, pos.z);
-            camel.rotation.y = pos.rot;
-            this.scene.add(camel);
+            this.place(camel, pos);
         });
     }
 
-    private createFlags(): void {
+    private createFlags(flagPositions: LayoutProp[]): void {
         // Israeli flags at key locations
-        const flagPositions = [
-            { x: 8, z: -35 },
-            { x: -8, z: -35 },
-            { x: 0, z: 8 }
-        ];
-
         flagPositions.forEach(pos => {
             const flagGroup = new THREE.Group();
 
@@ -1169,29 +1115,61 @@ export class World {
             ball.position.y = 6.1;
             flagGroup.add(ball);
 
-            flagGroup.position.set(pos.x, 0, pos.z);
-            this.scene.add(flagGroup);
+            this.place(flagGroup, pos);
         });
     }
 
-    // Toggle door open/close
-    public toggleDoor(door: THREE.Mesh): void {
-        const isOpen = this.doorStates.get(door) || false;
-        const targetRotation = isOpen ? 0 : -Math.PI / 2;
+    // Register something solid, indexed by its bounding box
+    private addCollider(collider: Collider): void {
+        const { halfWidth, halfDepth } = colliderBounds(collider);
+        this.colliderGrid.insert(this.colliders.length, collider.x, collider.z, halfWidth, halfDepth);
+        this.colliders.push(collider);
+    }
 
-        // Animate door
-        const animate = () => {
-            const currentRot = door.rotation.y;
-            const diff = targetRotation - currentRot;
+    // Colliders that could touch anything within `radius` of (x, z)
+    public getCollidersNear(x: number, z: number, radius: number): Collider[] {
+        return this.colliderGrid.queryRadius(x, z, radius).map(index => this.colliders[index]);
+    }
+
+    public getDoor(doorId: string): THREE.Mesh | undefined {
+        return this.doors.find(door => door.userData.doorId === doorId);
+    }
+
+    // Open or close a door as the server says. Swings it unless `animate` is false
+    // (joining mid-match); a change mid-swing just turns the door around.
+    public setDoorOpen(doorId: string, open: boolean, animate: boolean = true): void {
+        const door = this.getDoor(doorId);
+        if (!door) return;
+
+        this.doorStates.set(door, open);
+        const targetRotation = open ? -Math.PI / 2 : 0;
+        door.userData.targetRotation = targetRotation;
+
+        if (!animate) {
+            door.rotation.y = targetRotation;
+            return;
+        }
+        if (door.userData.swinging) return;
+
+        door.userData.swinging = true;
+        const swing = () => {
+            const diff = door.userData.targetRotation - door.rotation.y;
 
             if (Math.abs(diff) > 0.05) {
                 door.rotation.y += diff * 0.1;
-                requestAnimationFrame(animate);
+                requestAnimationFrame(swing);
             } else {
-                door.rotation.y = targetRotation;
-                this.doorStates.set(door, !isOpen);
+                door.rotation.y = door.userData.targetRotation;
+                door.userData.swinging = false;
             }
         };
-        animate();
+        swing();
+    }
+
+    // Match start, or catching up after joining or reconnecting
+    public applyDoorStates(doors: DoorState[]): void {
+        for (const door of doors) {
+            this.setDoorOpen(door.id, door.open, false);
+        }
     }
 }